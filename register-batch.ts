@@ -1,10 +1,15 @@
-import { createPublicClient, createWalletClient, http } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { mainnet } from 'viem/chains';
+/**
+ * Register the sibling agents on ERC-8004 from one wallet.
+ *
+ * Run: bun run register-batch.ts [--dry-run] [--yes] [--out <file>]
+ *
+ * Agents whose URI the wallet already registered are skipped, so a failed
+ * run can simply be repeated. Keys and chain settings come from the same
+ * env vars as src/register-identity.ts (PRIVATE_KEY or KEYSTORE_PATH).
+ */
 
-const REGISTRY = '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432';
-const PRIVATE_KEY = '0x5bb62a57934bafa8c539d1eca49be68bbf367929a7d19d416f18c207f71a3ab3';
-const RPC_URL = 'https://eth.llamarpc.com';
+import { METADATA_PATH } from './src/catalog';
+import { cliOptions, connectRegistry, loadAccount, runRegistrations, writeResults } from './src/registration';
 
 const agents = [
   'ai-model-registry',
@@ -28,51 +33,33 @@ const agents = [
   'treasury-data-agent'
 ];
 
-const account = privateKeyToAccount(PRIVATE_KEY);
-const walletClient = createWalletClient({ account, chain: mainnet, transport: http(RPC_URL) });
-const publicClient = createPublicClient({ chain: mainnet, transport: http(RPC_URL) });
+const agentURI = (name: string) => `https://${name}-production.up.railway.app${METADATA_PATH}`;
 
-const abi = [{ name: 'register', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: 'agentURI', type: 'string' }], outputs: [{ name: 'agentId', type: 'uint256' }] }] as const;
+async function main() {
+  const options = cliOptions();
+  const registry = connectRegistry(await loadAccount());
 
-async function registerAgent(name: string) {
-  const domain = `${name}-production.up.railway.app`;
-  const uri = `https://${domain}/.well-known/agent-metadata.json`;
-  
-  try {
-    const hash = await walletClient.writeContract({
-      address: REGISTRY,
-      abi,
-      functionName: 'register',
-      args: [uri],
-    });
-    console.log(`✅ ${name}: https://etherscan.io/tx/${hash}`);
-    await new Promise(r => setTimeout(r, 1000));
-    return { name, hash, success: true };
-  } catch (e: any) {
-    console.log(`❌ ${name}: ${e.shortMessage || e.message?.slice(0, 80) || e}`);
-    return { name, error: e.message, success: false };
-  }
-}
+  console.log(`Registering ${agents.length} agents on ERC-8004${options.dryRun ? ' (dry run)' : ''}...\n`);
+  console.log(`Wallet: ${registry.account.address}`);
+  console.log(`Registry: ${registry.address}\n`);
+
+  const results = await runRegistrations(registry, agents.map((name) => ({ name, agentURI: agentURI(name) })), options);
+  writeResults(options.out, registry, options, results);
 
-async function main() {
-  console.log(`Registering ${agents.length} agents on ERC-8004...\n`);
-  console.log(`Wallet: ${account.address}`);
-  console.log(`Registry: ${REGISTRY}\n`);
-  
-  const results = [];
-  for (const agent of agents) {
-    const result = await registerAgent(agent);
-    results.push(result);
-    await new Promise(r => setTimeout(r, 2000));
-  }
-  
   console.log('\n--- Summary ---');
-  const successes = results.filter(r => r.success);
-  console.log(`Success: ${successes.length}/${results.length}`);
-  if (successes.length > 0) {
+  for (const status of ['confirmed', 'skipped', 'dry-run', 'declined', 'failed'] as const) {
+    const matching = results.filter((r) => r.status === status);
+    if (matching.length) console.log(`${status}: ${matching.length}/${results.length}`);
+  }
+  const sent = results.filter((r) => r.transactionHash);
+  if (sent.length > 0) {
     console.log('\nTx hashes:');
-    successes.forEach(r => console.log(`  ${r.name}: ${r.hash}`));
+    sent.forEach((r) => console.log(`  ${r.name}: ${r.transactionHash}`));
   }
+  if (results.some((r) => r.status === 'failed')) process.exit(1);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error('❌', error.message ?? error);
+  process.exit(1);
+});
@@ -0,0 +1,320 @@
+/**
+ * Question parsing for the `ask` entrypoint: pulls teams, player names,
+ * stat categories, seasons and dates out of a plain-English question,
+ * picks the entrypoint that answers it, and words a short answer from that
+ * entrypoint's output.
+ *
+ * Parsing is rule-based, so the same question always routes the same way.
+ * A question that matches no rule parses to null and is rejected as input,
+ * and so is one that only looks like a player question: leftover words
+ * must match a rostered player before the question routes to `player`.
+ */
+
+import type { z } from 'zod';
+import type { LeadersOutput, PlayerAmbiguousOutput, PlayerOutput, StandingsOutput, TeamOutput } from './outputs';
+import { getFranchise, lookupTeam } from './teams';
+import { addDays, today } from './schedule';
+import type { GameType } from './seasons';
+import { searchPlayers } from './player-search';
+
+export type LeaderCategory = 'goals' | 'assists' | 'points' | 'plusMinus' | 'gaa' | 'savePctg';
+type Conference = 'eastern' | 'western';
+
+export interface Slots {
+  teams: string[];
+  player: string | null;
+  category: LeaderCategory | null;
+  season: number | null;
+  date: string | null;
+  conference: Conference | null;
+  gameType: GameType;
+  limit: number | null;
+}
+
+export type AskIntent =
+  | { entrypoint: 'standings'; input: { conference: Conference | 'all'; season?: number; date?: string } }
+  | { entrypoint: 'leaders'; input: { category: LeaderCategory; team?: string; limit?: number; season?: number; gameType: GameType } }
+  | { entrypoint: 'team'; input: { team: string; season?: number; date?: string; gameType: GameType } }
+  | { entrypoint: 'player'; input: { name: string } };
+
+export interface ParsedQuestion {
+  slots: Slots;
+  intent: AskIntent;
+}
+
+// Checked in order: "goals against" must win over "goals"
+const CATEGORY_PATTERNS: [LeaderCategory, RegExp][] = [
+  ['gaa', /\bgaa\b|\bgoals against\b/],
+  ['savePctg', /\bsave (percentage|pct|pctg|%)|\bsv ?%/],
+  ['plusMinus', /\bplus[ -]?minus\b|\+\/-/],
+  ['goals', /\bgoals?\b|\bsnipers?\b/],
+  ['assists', /\bassists?\b|\bhelpers\b/],
+  ['points', /\bpoints?\b|\bpts\b|\bscor(ing|er|ers)\b/],
+];
+
+const LEADER_WORDS = /\b(leads?|led|leading|leaders?|most|top|best|highest|lowest|fewest)\b/;
+const STANDINGS_WORDS = /\b(standings?|first place|last place|playoff (race|spots?|picture)|(which|what) teams?|best teams?|worst teams?|top teams?)\b/;
+const PLAYOFF_GAMES = /\b(playoffs?|postseason)\b(?! (race|spots?|picture|position))/;
+
+// English words that are also a franchise abbreviation ("was" is WSH's old
+// code); these only count as teams when written in capitals
+const AMBIGUOUS_TEAM_WORDS = new Set(['was', 'win', 'oil', 'car', 'col', 'min', 'cal', 'la', 'tan', 'dc']);
+
+// Words that never belong to a player's name
+const STOPWORDS = new Set([
+  'a', 'about', 'against', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'average', 'be', 'been', 'by', 'can',
+  'career', 'conference', 'currently', 'did', 'division', 'do', 'does', 'doing', 'east', 'eastern', 'far', 'for',
+  'from', 'game', 'games', 'get', 'give', 'good', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'in', 'is', 'it',
+  'its', 'lately', 'league', 'many', 'me', 'more', 'much', 'my', 'nhl', 'now', 'of', 'on', 'or', 'percentage',
+  'picture', 'place', 'play', 'played', 'player', 'playing', 'playoff', 'playoffs', 'position', 'postseason', 'race',
+  'rank', 'ranked', 'record', 'recently', 'regular', 'right', 'scored', 'season', 'she', 'show', 'so', 'spot', 'spots',
+  'stand', 'standing', 'standings', 'stats', 'statistics', 'streak', 'tell', 'than', 'that', 'the', 'their', 'them',
+  'they', 'this', 'today', 'tonight', 'team', 'teams', 'to', 'total', 'up', 'was', 'well', 'were', 'west', 'western',
+  'what', 'when', 'where', 'which', 'who', 'whos', 'will', 'with', 'year', 'yesterday', 'you',
+  'goal', 'goals', 'assist', 'assists', 'point', 'points', 'pts', 'plus', 'minus', 'plus-minus', 'gaa', 'save',
+  'saves', 'sv', 'scoring', 'scorer', 'scorers', 'sniper', 'snipers', 'helpers',
+  'lead', 'leads', 'led', 'leading', 'leader', 'leaders', 'most', 'top', 'best', 'highest', 'lowest', 'fewest', 'worst',
+]);
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MAX_TEAM_WORDS = 3;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ISO dates, "yesterday", and "March 5" or "Mar 5, 2024"; a month and day
+// without a year means the most recent one
+function parseDate(text: string): { date: string; match: string } | null {
+  const iso = text.match(/\b\d{4}-\d{2}-\d{2}\b/);
+  if (iso) return { date: iso[0], match: iso[0] };
+  const yesterday = text.match(/\byesterday\b/i);
+  if (yesterday) return { date: addDays(today(), -1), match: yesterday[0] };
+
+  const named = text.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?\b/i);
+  if (!named) return null;
+  const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase()) + 1;
+  const day = Number(named[2]);
+  if (day < 1 || day > 31) return null;
+  const now = today();
+  let year = named[3] ? Number(named[3]) : Number(now.slice(0, 4));
+  if (!named[3] && `${year}-${pad(month)}-${pad(day)}` > now) year -= 1;
+  return { date: `${year}-${pad(month)}-${pad(day)}`, match: named[0] };
+}
+
+// "2022-23", "2022-2023" or "20222023"
+function parseSeason(text: string): { season: number; match: string } | null {
+  const match = text.match(/\b(\d{4})[-/](\d{4}|\d{2})\b/) ?? text.match(/\b(\d{4})(\d{4})\b/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = match[2].length === 2 ? Math.floor(start / 100) * 100 + Number(match[2]) : Number(match[2]);
+  // "1999-00" rolls into the next century
+  const endYear = end < start ? end + 100 : end;
+  if (endYear !== start + 1) return null;
+  return { season: start * 10000 + endYear, match: match[0] };
+}
+
+/**
+ * Teams named in the question, longest phrase first ("maple leafs" before
+ * "leafs"), with the indexes of the words each one used.
+ */
+function findTeams(words: string[]) {
+  const teams: string[] = [];
+  const used = new Set<number>();
+  for (let width = MAX_TEAM_WORDS; width >= 1; width--) {
+    for (let i = 0; i + width <= words.length; i++) {
+      const span = Array.from({ length: width }, (_, k) => i + k);
+      if (span.some((k) => used.has(k))) continue;
+      const phrase = words.slice(i, i + width);
+      if (width === 1 && AMBIGUOUS_TEAM_WORDS.has(phrase[0].toLowerCase()) && phrase[0] !== phrase[0].toUpperCase()) continue;
+      const team = lookupTeam(phrase.join(''));
+      if (!team) continue;
+      span.forEach((k) => used.add(k));
+      if (!teams.includes(team)) teams.push(team);
+    }
+  }
+  return { teams, used };
+}
+
+export function parseQuestion(question: string): ParsedQuestion | null {
+  let text = question.trim();
+  const date = parseDate(text);
+  if (date) text = text.replace(date.match, ' ');
+  const season = parseSeason(text);
+  if (season) text = text.replace(season.match, ' ');
+
+  const lower = text.toLowerCase();
+  const words = text
+    .split(/[\s,?!;:()"]+/)
+    .map((w) => w.replace(/['’]s$/i, '').replace(/[.'’]+$/, ''))
+    .filter(Boolean);
+  const { teams, used } = findTeams(words);
+  const nameWords = words.filter((w, i) =>
+    !used.has(i) && /^\p{L}[\p{L}'’.-]*$/u.test(w) && w.length > 1 && !STOPWORDS.has(w.toLowerCase().replace(/['’]/g, '')));
+  const limit = lower.match(/\btop (\d{1,2})\b/);
+
+  const slots: Slots = {
+    teams,
+    player: nameWords.length ? nameWords.join(' ') : null,
+    category: CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(lower))?.[0] ?? null,
+    season: season?.season ?? null,
+    date: date?.date ?? null,
+    conference: /\beast(ern)?\b/.test(lower) ? 'eastern' : /\bwest(ern)?\b/.test(lower) ? 'western' : null,
+    gameType: PLAYOFF_GAMES.test(lower) ? 'playoffs' : 'regular',
+    limit: limit ? Math.min(25, Math.max(1, Number(limit[1]))) : null,
+  };
+
+  const intent = route(slots, lower);
+  return intent ? { slots, intent } : null;
+}
+
+/**
+ * Parse a question and confirm a player route against the rosters, so
+ * text that is not about hockey ("what is the weather") is rejected rather
+ * than looked up as a player named "weather".
+ */
+export async function resolveQuestion(question: string): Promise<ParsedQuestion | null> {
+  const parsed = parseQuestion(question);
+  if (parsed?.intent.entrypoint !== 'player') return parsed;
+  const { candidates } = await searchPlayers(parsed.intent.input.name, { limit: 1 });
+  return candidates.length ? parsed : null;
+}
+
+function route(slots: Slots, lower: string): AskIntent | null {
+  const when = { ...(slots.season ? { season: slots.season } : {}), ...(slots.date ? { date: slots.date } : {}) };
+  const standings: AskIntent = { entrypoint: 'standings', input: { conference: slots.conference ?? 'all', ...when } };
+  const leaders = (category: LeaderCategory): AskIntent => ({
+    entrypoint: 'leaders',
+    input: {
+      category,
+      // "Most points on the Oilers" ranks that team's players
+      ...(slots.teams.length === 1 ? { team: slots.teams[0] } : {}),
+      ...(slots.limit ? { limit: slots.limit } : {}),
+      ...(slots.season ? { season: slots.season } : {}),
+      gameType: slots.gameType,
+    },
+  });
+
+  // "Which team has the most points?" is a standings question, not a leaders one
+  if (STANDINGS_WORDS.test(lower) && slots.teams.length !== 1) return standings;
+  if (slots.category && LEADER_WORDS.test(lower)) return leaders(slots.category);
+  if (slots.player) {
+    // A team next to a name is a hint for which player ("Hughes on the Devils")
+    const hint = slots.teams.length === 1 ? ` ${slots.teams[0]}` : '';
+    return { entrypoint: 'player', input: { name: `${slots.player}${hint}` } };
+  }
+  if (slots.teams.length === 1) return { entrypoint: 'team', input: { team: slots.teams[0], ...when, gameType: slots.gameType } };
+  if (slots.category) return leaders(slots.category);
+  if (STANDINGS_WORDS.test(lower) || slots.conference) return standings;
+  return null;
+}
+
+// Answer wording
+
+type Standings = z.infer<typeof StandingsOutput>;
+type Leaders = z.infer<typeof LeadersOutput>;
+type Team = z.infer<typeof TeamOutput>;
+type Player = z.infer<typeof PlayerOutput> | z.infer<typeof PlayerAmbiguousOutput>;
+
+const CATEGORY_LABELS: Record<LeaderCategory, string> = {
+  goals: 'goals',
+  assists: 'assists',
+  points: 'points',
+  plusMinus: 'plus-minus',
+  gaa: 'goals-against average',
+  savePctg: 'save percentage',
+};
+
+function ordinal(n: number) {
+  const tens = n % 100;
+  const suffix = tens >= 11 && tens <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+const seasonLabel = (season: number) => `${Math.floor(season / 10000)}-${pad(season % 100)}`;
+
+// "in 2022-23", "as of 2024-01-01" or "this season"
+function period(season: number | null, date: string | null) {
+  if (date) return `as of ${date}`;
+  if (season) return `in ${seasonLabel(season)}`;
+  return 'this season';
+}
+
+function leaderValue(category: string, value: number) {
+  if (category === 'savePctg') return value.toFixed(3).replace(/^0/, '');
+  if (category === 'gaa') return value.toFixed(2);
+  if (category === 'plusMinus' && value > 0) return `+${value}`;
+  return String(value);
+}
+
+const list = (items: string[]) =>
+  items.length <= 2 ? items.join(' and ') : `${items.slice(0, -1).join(', ')} and ${items.at(-1)}`;
+
+function standingsAnswer(output: Standings, input: Extract<AskIntent, { entrypoint: 'standings' }>['input']) {
+  const [first, ...rest] = [...output.standings].sort((a, b) => b.points - a.points);
+  if (!first) return 'No standings are available for that date.';
+  const scope = input.conference === 'all' ? 'the league' : `the ${input.conference === 'eastern' ? 'Eastern' : 'Western'} Conference`;
+  const verb = output.season || output.date ? 'led' : 'lead';
+  const chasers = rest.slice(0, 2).map((t) => `the ${t.teamName} (${t.points})`);
+  return `The ${first.teamName} ${verb} ${scope} ${period(output.season, output.date)} with ${first.points} points`
+    + `${chasers.length ? `, ahead of ${list(chasers)}` : ''}.`;
+}
+
+function leadersAnswer(output: Leaders) {
+  const [first, ...rest] = output.leaders;
+  const label = CATEGORY_LABELS[output.category as LeaderCategory] ?? output.category;
+  if (!first) return `No ${label} leaders are available.`;
+  const team = output.team ? `the ${getFranchise(output.team)?.name ?? output.team}` : null;
+  const scope = team
+    ? `${team}${output.gameType === 'playoffs' ? ' in the playoffs' : ''}`
+    : output.gameType === 'playoffs' ? 'the playoffs' : 'the league';
+  const verb = output.season ? 'led' : 'leads';
+  const chasers = rest.slice(0, 2).map((p) => `${p.name} (${p.team}, ${leaderValue(output.category, p.value)})`);
+  return `${first.name} (${first.team}) ${verb} ${scope} in ${label}${output.season ? ` in ${seasonLabel(output.season)}` : ''}`
+    + ` with ${leaderValue(output.category, first.value)}${chasers.length ? `, ahead of ${list(chasers)}` : ''}.`;
+}
+
+function teamAnswer(output: Team) {
+  const name = output.team.name ?? getFranchise(output.team.abbrev)?.name ?? output.team.abbrev;
+  const s = output.standing;
+  if (!s) return `No standings are available for the ${name} ${period(output.season, output.date)}.`;
+  const verb = output.season || output.date ? 'were' : 'are';
+  const division = output.team.division ? `${ordinal(s.divisionRank)} in the ${output.team.division} Division and ` : '';
+  const moved = s.change && s.change.leagueRank !== 0
+    ? ` (${s.change.leagueRank > 0 ? 'up' : 'down'} ${Math.abs(s.change.leagueRank)} since ${s.change.since})`
+    : '';
+  const streak = s.streak ? `, on a ${s.streak} streak` : '';
+  const recent = output.recentGames.length
+    ? ` Last ${output.recentGames.length}: ${output.recentGames.map((g) => g.result).join(', ')}.`
+    : '';
+  return `The ${name} ${verb} ${s.record} with ${s.points} points ${period(output.season, output.date)}, `
+    + `${division}${ordinal(s.leagueRank)} in the league${moved}${streak}.${recent}`;
+}
+
+function playerAnswer(output: Player) {
+  if ('ambiguous' in output) {
+    const names = output.candidates.map((c) => `${c.name} (${c.team}, ${c.position})`);
+    return `"${output.query}" matches ${output.candidates.length} players: ${list(names)}. Add a team or a full name to narrow it down.`;
+  }
+  const who = `${output.player.name}${output.player.team ? ` (${output.player.team})` : ''}`;
+  if (!output.currentSeason.gamesPlayed) return `${who} has not played this season.`;
+  if (output.type === 'goalie') {
+    const s = output.currentSeason;
+    const record = `${s.wins ?? 0}-${s.losses ?? 0}-${s.otLosses ?? 0}`;
+    const savePctg = s.savePctg !== undefined ? ` with a ${leaderValue('savePctg', s.savePctg)} save percentage` : '';
+    const gaa = s.goalsAgainstAvg !== undefined ? ` and a ${leaderValue('gaa', s.goalsAgainstAvg)} GAA` : '';
+    return `${who} is ${record}${savePctg}${gaa} in ${s.gamesPlayed} games this season.`;
+  }
+  const cur = output.currentSeason;
+  return `${who} has ${cur.goals ?? 0} goals and ${cur.assists ?? 0} assists for ${cur.points ?? 0} points`
+    + ` in ${cur.gamesPlayed} games this season.`;
+}
+
+/** A one- or two-sentence answer from the output of the entrypoint the question routed to */
+export function answerQuestion(intent: AskIntent, output: unknown) {
+  switch (intent.entrypoint) {
+    case 'standings': return standingsAnswer(output as Standings, intent.input);
+    case 'leaders': return leadersAnswer(output as Leaders);
+    case 'team': return teamAnswer(output as Team);
+    case 'player': return playerAnswer(output as Player);
+  }
+}
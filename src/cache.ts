@@ -0,0 +1,99 @@
+/**
+ * In-memory TTL cache with in-flight request coalescing and
+ * stale-while-revalidate, used to shield the NHL API from bursty callers.
+ */
+
+export interface CachePolicy {
+  /** How long an entry is served as fresh */
+  ttlMs: number;
+  /** How long past its TTL an entry may still be served while it refreshes */
+  staleMs: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  ageMs: number;
+  stale: boolean;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  policy: CachePolicy;
+}
+
+export class TtlCache<T = unknown> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private inflight = new Map<string, Promise<CacheEntry<T>>>();
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(options: { maxEntries?: number; now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string, load: () => Promise<T>, policy: CachePolicy): Promise<CacheResult<T>> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      const ageMs = this.now() - entry.storedAt;
+      if (ageMs <= entry.policy.ttlMs) {
+        return { value: entry.value, ageMs, stale: false };
+      }
+      if (ageMs <= entry.policy.ttlMs + entry.policy.staleMs) {
+        // Serve stale and refresh in the background; a failed refresh keeps the old entry
+        this.refresh(key, load, policy).catch(() => {});
+        return { value: entry.value, ageMs, stale: true };
+      }
+    }
+
+    const fresh = await this.refresh(key, load, policy);
+    return { value: fresh.value, ageMs: this.now() - fresh.storedAt, stale: false };
+  }
+
+  /** Age and staleness of a cached key without triggering a load */
+  peek(key: string): { ageMs: number; stale: boolean } | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    const ageMs = this.now() - entry.storedAt;
+    return { ageMs, stale: ageMs > entry.policy.ttlMs };
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+
+  private refresh(key: string, load: () => Promise<T>, policy: CachePolicy): Promise<CacheEntry<T>> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const request = load()
+      .then((value) => {
+        const entry = { value, storedAt: this.now(), policy };
+        this.set(key, entry);
+        return entry;
+      })
+      .finally(() => {
+        this.inflight.delete(key);
+      });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  private set(key: string, entry: CacheEntry<T>) {
+    // Re-insert so Map iteration order tracks recency for eviction
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
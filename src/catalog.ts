@@ -0,0 +1,177 @@
+/**
+ * The entrypoint catalog: every `addEntrypoint` call is recorded here, as
+ * are routes the server answers itself (the ask router), and
+ * everything that describes the agent to the outside is generated from it -
+ * the ERC-8004 agent metadata document, and an OpenAPI catalog with the JSON
+ * schema of each entrypoint's input and output.
+ *
+ * Keys, descriptions and prices live only in the entrypoint definitions.
+ * Prices are defined in micro-USD (1000 = $0.001) and published in USD.
+ */
+
+import { z } from 'zod';
+
+// ERC-8004 identity of the deployed agent
+export const AGENT_IDENTITY = {
+  name: 'NHL Stats Agent',
+  description: 'Live NHL hockey stats, standings, and player data via x402 micropayments',
+  version: '1.0.0',
+  owner: '0x0C3D21e8835990427405F6FeA649f1fb8CB30ED6',
+  chain: 'eip155:1',
+  registeredAt: '2026-01-31T05:39:29.362Z',
+  x402: {
+    receiverAddress: '0x0C3D21e8835990427405F6FeA649f1fb8CB30ED6',
+    network: 'base',
+    facilitator: 'https://facilitator.daydreams.systems',
+  },
+  erc8004: {
+    registry: '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432',
+    chainId: 1,
+    transactionHash: '0x244b6c16d66165ec2156297b41d6c1b0d49ea601f58e392ddecbf315979efa92',
+  },
+} as const;
+
+export const METADATA_PATH = '/.well-known/agent-metadata.json';
+export const OPENAPI_PATH = '/openapi.json';
+
+interface EntrypointDefinition {
+  key: string;
+  description?: string;
+  input: z.ZodType;
+  output?: z.ZodType;
+  price?: { amount: number };
+  /** Entrypoints a router forwards to; it is billed at the price of the one it runs */
+  routesTo?: string[];
+}
+
+const entries = new Map<string, EntrypointDefinition>();
+
+/**
+ * Wrap the app's `addEntrypoint` so each definition is recorded before it
+ * is mounted. Keys must be unique and every entrypoint needs a description.
+ */
+export function catalogued<A extends (definition: never) => unknown>(addEntrypoint: A): A {
+  // A keeps the app's own (generic) signature; every definition it accepts is an EntrypointDefinition
+  const mount = addEntrypoint as unknown as (definition: EntrypointDefinition) => unknown;
+  return ((definition: EntrypointDefinition) => {
+    record(definition);
+    return mount(definition);
+  }) as unknown as A;
+}
+
+/**
+ * Record a router the server answers itself, outside the agent app. Its
+ * routes must already be added; it is published and metered like them.
+ */
+export function catalogRouter(definition: EntrypointDefinition & { routesTo: string[] }) {
+  for (const route of definition.routesTo) priceOf(route);
+  record(definition);
+}
+
+function record(definition: EntrypointDefinition) {
+  if (entries.has(definition.key)) throw new Error(`Duplicate entrypoint key "${definition.key}"`);
+  if (!definition.description) throw new Error(`Entrypoint "${definition.key}" has no description`);
+  entries.set(definition.key, definition);
+}
+
+export const hasEntrypoint = (key: string) => entries.has(key);
+
+/** An entrypoint's price in micro-USD; entrypoints must be added before they are priced */
+export function priceOf(key: string) {
+  const entry = entries.get(key);
+  if (!entry) throw new Error(`Unknown entrypoint "${key}"`);
+  return entry.price?.amount ?? 0;
+}
+
+// A router is quoted from its cheapest to its dearest route
+function priceRange(e: EntrypointDefinition) {
+  const amounts = e.routesTo?.map(priceOf) ?? [e.price?.amount ?? 0];
+  return { min: Math.min(...amounts), max: Math.max(...amounts) };
+}
+
+export const toUsd = (amount: number) => amount / 1_000_000;
+
+/** Published capabilities, in the order the entrypoints were added */
+export function capabilities() {
+  return [...entries.values()].map((e) => {
+    const { min, max } = priceRange(e);
+    return {
+      name: e.key,
+      description: e.description!,
+      price: toUsd(min),
+      ...(max > min && { maxPrice: toUsd(max) }),
+    };
+  });
+}
+
+/** The ERC-8004 agent metadata document */
+export function agentMetadata() {
+  const { x402, erc8004, ...agent } = AGENT_IDENTITY;
+  return { ...agent, capabilities: capabilities(), x402, erc8004 };
+}
+
+// Schemas that JSON Schema cannot express (transforms, custom checks) are published as open schemas
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output') {
+  const { $schema, ...rest } = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  return rest;
+}
+
+/**
+ * OpenAPI 3.1 catalog of the entrypoints, as served by the agent app:
+ * POST /entrypoints/{key}/invoke with `{ input }`, answering `{ output }`.
+ * Paid entrypoints answer 402 until an x402 payment is attached.
+ */
+export function openApiDocument() {
+  const paths: Record<string, unknown> = {};
+  for (const e of entries.values()) {
+    const { min, max } = priceRange(e);
+    paths[`/entrypoints/${e.key}/invoke`] = {
+      post: {
+        operationId: e.key,
+        summary: e.description,
+        'x-price': {
+          amount: toUsd(min),
+          ...(max > min && { maxAmount: toUsd(max) }),
+          currency: 'USD',
+          network: AGENT_IDENTITY.x402.network,
+        },
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { input: jsonSchema(e.input, 'input') },
+                required: ['input'],
+              },
+            },
+          },
+        },
+        responses: {
+          200: {
+            description: 'Entrypoint output',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { output: e.output ? jsonSchema(e.output, 'output') : {} },
+                },
+              },
+            },
+          },
+          ...(max > 0 && { 402: { description: 'Payment required (x402)' } }),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: AGENT_IDENTITY.name,
+      description: AGENT_IDENTITY.description,
+      version: AGENT_IDENTITY.version,
+    },
+    paths,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Consecutive-failure circuit breaker. After `failureThreshold` failures the
+ * circuit opens and calls fail fast for `resetMs`; the first call after that
+ * is let through as a trial and closes the circuit again if it succeeds.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private failureThreshold: number;
+  private resetMs: number;
+  private now: () => number;
+
+  constructor(options: { failureThreshold?: number; resetMs?: number; now?: () => number } = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetMs = options.resetMs ?? 30_000;
+    this.now = options.now ?? Date.now;
+  }
+
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) return 'closed';
+    return this.now() - this.openedAt >= this.resetMs ? 'half-open' : 'open';
+  }
+
+  /** Milliseconds until an open circuit allows a trial call */
+  get retryAfterMs() {
+    return Math.max(0, this.openedAt + this.resetMs - this.now());
+  }
+
+  /** Whether a call may proceed right now */
+  allow(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.failures >= this.failureThreshold) this.openedAt = this.now();
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Season-to-date club stats, shared by the entrypoints that need every
+ * skater or goalie on one team or across the league.
+ */
+
+import { fetchNHL } from './nhl-api';
+import { ClubStatsSchema, TeamSummarySchema, type ClubStats } from './schemas';
+import { GAME_TYPE_CODES, currentSeason, type GameType } from './seasons';
+import { TEAM_ABBREVS, abbrevInSeason, lookupTeam } from './teams';
+
+export const clubStatsEndpoint = (team: string) => `/club-stats/${team}/now`;
+
+/** Club stats endpoint for a season and game type; the current regular season reads `now` */
+export async function clubStatsSeasonEndpoint(team: string, opts: { season?: number; gameType?: GameType }) {
+  const gameType = opts.gameType ?? 'regular';
+  if (!opts.season && gameType === 'regular') return clubStatsEndpoint(team);
+  const season = opts.season ?? await currentSeason();
+  return `/club-stats/${abbrevInSeason(team, season)}/${season}/${GAME_TYPE_CODES[gameType]}`;
+}
+
+export function fetchClubStats(team: string) {
+  return fetchNHL(clubStatsEndpoint(team), ClubStatsSchema);
+}
+
+/**
+ * Club stats for one team, or every team when none is given. League-wide,
+ * a team whose stats fail to load is left out rather than failing the call.
+ */
+export async function fetchClubs(team?: string): Promise<{ team: string; stats: ClubStats }[]> {
+  if (team) return [{ team, stats: await fetchClubStats(team) }];
+  const results = await Promise.allSettled(
+    TEAM_ABBREVS.map(async (t) => ({ team: t, stats: await fetchClubStats(t) })),
+  );
+  return results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+}
+
+export const teamSummaryEndpoint = (season: number) =>
+  `/stats/rest/en/team/summary?cayenneExp=seasonId=${season}%20and%20gameTypeId=2`;
+
+/** Power-play and penalty-kill percentages of every team in a regular season, by abbreviation */
+export async function fetchSpecialTeams(season: number) {
+  const { data } = await fetchNHL(teamSummaryEndpoint(season), TeamSummarySchema);
+  const rates = new Map<string, { powerPlayPctg: number | null; penaltyKillPctg: number | null }>();
+  for (const row of data) {
+    // The summary names teams in full only
+    const team = lookupTeam(row.teamFullName);
+    if (team) rates.set(team, { powerPlayPctg: row.powerPlayPct ?? null, penaltyKillPctg: row.penaltyKillPct ?? null });
+  }
+  return rates;
+}
+
+export type ClubLeaderCategory = 'goals' | 'assists' | 'points' | 'plusMinus' | 'gaa' | 'savePctg';
+
+/**
+ * One club's players ranked in a leaders category, best first. Goalies
+ * without a recorded rate are left out; goals-against average ranks low to high.
+ */
+export function clubLeaders(stats: ClubStats, category: ClubLeaderCategory) {
+  const rows = category === 'gaa' || category === 'savePctg'
+    ? stats.goalies.map((g) => ({
+        player: g,
+        position: 'G',
+        value: category === 'gaa' ? g.goalsAgainstAverage : g.savePercentage,
+      }))
+    : stats.skaters.map((s) => ({ player: s, position: s.positionCode, value: s[category] }));
+  const ranked = rows.flatMap((r) => (r.value === undefined ? [] : [{ ...r, value: r.value }]));
+  return ranked.sort((a, b) => (category === 'gaa' ? a.value - b.value : b.value - a.value));
+}
@@ -0,0 +1,127 @@
+/**
+ * Side-by-side player comparison. Skaters and goalies are compared on their
+ * own stat sets, with derived rate stats and the leader of each category.
+ */
+
+import { NotFoundError } from './errors';
+import { currentSeasonTotal, fetchPlayerLanding, isGoalie, parseToi } from './players';
+import type { FeaturedStats, PlayerLanding } from './schemas';
+
+type Better = 'higher' | 'lower';
+
+interface StatDef {
+  stat: string;
+  better: Better;
+  value: (line: FeaturedStats, landing: PlayerLanding) => number | undefined;
+}
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+// Divide, or undefined when the denominator is missing or zero
+function ratio(numerator: number | undefined, denominator: number | undefined, places = 2) {
+  if (numerator === undefined || !denominator) return undefined;
+  return round(numerator / denominator, places);
+}
+
+// Total minutes played this season, from average TOI x games played
+function seasonMinutes(landing: PlayerLanding) {
+  const total = currentSeasonTotal(landing);
+  if (!total) return undefined;
+  if (isGoalie(landing)) return parseToi(total.timeOnIce);
+  const avg = parseToi(total.avgToi);
+  return avg !== undefined && total.gamesPlayed ? avg * total.gamesPlayed : undefined;
+}
+
+const SKATER_STATS: StatDef[] = [
+  { stat: 'gamesPlayed', better: 'higher', value: (s) => s.gamesPlayed },
+  { stat: 'goals', better: 'higher', value: (s) => s.goals },
+  { stat: 'assists', better: 'higher', value: (s) => s.assists },
+  { stat: 'points', better: 'higher', value: (s) => s.points },
+  { stat: 'plusMinus', better: 'higher', value: (s) => s.plusMinus },
+  { stat: 'pim', better: 'lower', value: (s) => s.pim },
+  { stat: 'powerPlayGoals', better: 'higher', value: (s) => s.powerPlayGoals },
+  { stat: 'shots', better: 'higher', value: (s) => s.shots },
+  { stat: 'shootingPctg', better: 'higher', value: (s) => (s.shootingPctg !== undefined ? round(s.shootingPctg * 100, 1) : undefined) },
+  { stat: 'goalsPerGame', better: 'higher', value: (s) => ratio(s.goals, s.gamesPlayed) },
+  { stat: 'assistsPerGame', better: 'higher', value: (s) => ratio(s.assists, s.gamesPlayed) },
+  { stat: 'pointsPerGame', better: 'higher', value: (s) => ratio(s.points, s.gamesPlayed) },
+  { stat: 'shotsPerGame', better: 'higher', value: (s) => ratio(s.shots, s.gamesPlayed) },
+];
+
+// Per-60 rates need ice time, which only exists for the current season
+const SKATER_RATE_STATS: StatDef[] = [
+  { stat: 'goalsPer60', better: 'higher', value: (s, l) => ratio(s.goals !== undefined ? s.goals * 60 : undefined, seasonMinutes(l)) },
+  { stat: 'pointsPer60', better: 'higher', value: (s, l) => ratio(s.points !== undefined ? s.points * 60 : undefined, seasonMinutes(l)) },
+  { stat: 'shotsPer60', better: 'higher', value: (s, l) => ratio(s.shots !== undefined ? s.shots * 60 : undefined, seasonMinutes(l)) },
+];
+
+const GOALIE_STATS: StatDef[] = [
+  { stat: 'gamesPlayed', better: 'higher', value: (s) => s.gamesPlayed },
+  { stat: 'wins', better: 'higher', value: (s) => s.wins },
+  { stat: 'losses', better: 'lower', value: (s) => s.losses },
+  { stat: 'otLosses', better: 'lower', value: (s) => s.otLosses },
+  { stat: 'shutouts', better: 'higher', value: (s) => s.shutouts },
+  { stat: 'savePctg', better: 'higher', value: (s) => (s.savePctg !== undefined ? round(s.savePctg, 3) : undefined) },
+  { stat: 'goalsAgainstAvg', better: 'lower', value: (s) => (s.goalsAgainstAvg !== undefined ? round(s.goalsAgainstAvg, 2) : undefined) },
+  {
+    stat: 'winPctg',
+    better: 'higher',
+    value: (s) => ratio(s.wins, (s.wins ?? 0) + (s.losses ?? 0) + (s.otLosses ?? 0), 3),
+  },
+  { stat: 'shutoutRate', better: 'higher', value: (s) => ratio(s.shutouts, s.gamesPlayed, 3) },
+];
+
+const GOALIE_RATE_STATS: StatDef[] = [
+  {
+    stat: 'shotsAgainstPer60',
+    better: 'lower',
+    value: (_, l) => {
+      const total = currentSeasonTotal(l);
+      return ratio(total?.shotsAgainst !== undefined ? total.shotsAgainst * 60 : undefined, seasonMinutes(l));
+    },
+  },
+];
+
+function compareCategory(def: StatDef, players: PlayerLanding[], line: (p: PlayerLanding) => FeaturedStats) {
+  const values: Record<string, number | null> = {};
+  let best: number | undefined;
+  for (const p of players) {
+    const value = def.value(line(p), p);
+    values[p.playerId] = value ?? null;
+    if (value === undefined) continue;
+    if (best === undefined || (def.better === 'higher' ? value > best : value < best)) best = value;
+  }
+  const leaders = best === undefined ? [] : players.filter((p) => values[p.playerId] === best).map((p) => p.playerId);
+  return { stat: def.stat, better: def.better, values, leaders };
+}
+
+function compareGroup(players: PlayerLanding[], stats: StatDef[], rateStats: StatDef[]) {
+  if (players.length === 0) return null;
+  const season = (p: PlayerLanding) => p.featuredStats?.regularSeason?.subSeason ?? {};
+  const career = (p: PlayerLanding) => p.featuredStats?.regularSeason?.career ?? {};
+  return {
+    playerIds: players.map((p) => p.playerId),
+    currentSeason: [...stats, ...rateStats].map((def) => compareCategory(def, players, season)),
+    career: stats.map((def) => compareCategory(def, players, career)),
+  };
+}
+
+export async function comparePlayers(playerIds: number[]) {
+  const unique = [...new Set(playerIds)];
+  const landings = await Promise.all(unique.map((id) => fetchPlayerLanding(id).catch((error) => {
+    if (error instanceof NotFoundError) throw new NotFoundError(error.endpoint, `Player ${id} not found`);
+    throw error;
+  })));
+
+  return {
+    players: landings.map((p) => ({
+      id: p.playerId,
+      name: `${p.firstName.default} ${p.lastName.default}`,
+      team: p.currentTeamAbbrev,
+      position: p.position,
+      type: isGoalie(p) ? 'goalie' as const : 'skater' as const,
+    })),
+    skaters: compareGroup(landings.filter((p) => !isGoalie(p)), SKATER_STATS, SKATER_RATE_STATS),
+    goalies: compareGroup(landings.filter(isGoalie), GOALIE_STATS, GOALIE_RATE_STATS),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Typed errors raised by the NHL API client. Entrypoint handlers map these
+ * to structured error outputs instead of surfacing opaque failures.
+ */
+
+import { z } from 'zod';
+
+export type ErrorCode = 'upstream_unavailable' | 'not_found' | 'malformed_payload' | 'schema_drift' | 'invalid_input';
+
+export class NHLApiError extends Error {
+  readonly code: ErrorCode;
+  readonly endpoint: string;
+  readonly status?: number;
+
+  constructor(code: ErrorCode, message: string, endpoint: string, status?: number) {
+    super(message);
+    this.name = 'NHLApiError';
+    this.code = code;
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+
+  get retryable() {
+    return this.code === 'upstream_unavailable';
+  }
+}
+
+/** NHL API is down, rate limiting us, timing out, or the circuit is open */
+export class UpstreamUnavailableError extends NHLApiError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(endpoint: string, message: string, status?: number, retryAfterSeconds?: number) {
+    super('upstream_unavailable', message, endpoint, status);
+    this.name = 'UpstreamUnavailableError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** The requested resource (player, team, game) does not exist upstream */
+export class NotFoundError extends NHLApiError {
+  constructor(endpoint: string, message = 'Resource not found') {
+    super('not_found', message, endpoint, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** A team name that matches no franchise, with the closest names as suggestions */
+export class UnknownTeamError extends NotFoundError {
+  readonly suggestions: string[];
+
+  constructor(input: string, suggestions: string[]) {
+    const hint = suggestions.length ? ` Did you mean ${suggestions.join(', ')}?` : '';
+    super('franchise-registry', `Unknown team "${input}".${hint}`);
+    this.name = 'UnknownTeamError';
+    this.suggestions = suggestions;
+  }
+}
+
+/** Upstream responded, but not with a payload we can read */
+export class MalformedPayloadError extends NHLApiError {
+  constructor(endpoint: string, message = 'NHL API returned a malformed payload') {
+    super('malformed_payload', message, endpoint);
+    this.name = 'MalformedPayloadError';
+  }
+}
+
+/** Upstream payload no longer matches the shape we validate against */
+export class SchemaDriftError extends NHLApiError {
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super('schema_drift', `NHL API response for ${endpoint} no longer matches the expected schema`, endpoint);
+    this.name = 'SchemaDriftError';
+    this.issues = issues;
+  }
+}
+
+/** Input that cannot be answered as asked, such as a date outside the requested season */
+export class InvalidInputError extends NHLApiError {
+  constructor(endpoint: string, message: string) {
+    super('invalid_input', message, endpoint, 400);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export const ErrorOutputSchema = z.object({
+  error: z.object({
+    code: z.enum(['upstream_unavailable', 'not_found', 'malformed_payload', 'schema_drift', 'invalid_input']),
+    message: z.string(),
+    retryable: z.boolean(),
+    retryAfterSeconds: z.number().optional(),
+    suggestions: z.array(z.string()).optional(),
+  }),
+});
+
+export type ErrorOutput = z.infer<typeof ErrorOutputSchema>;
+
+/** An entrypoint's output contract: its success shape, or a structured error */
+export function withErrorSchema<T extends z.ZodType>(schema: T) {
+  return z.union([schema, ErrorOutputSchema]);
+}
+
+/**
+ * Wrap an entrypoint handler so NHL API errors become structured outputs.
+ * `notFound` customises the message when the requested resource is missing;
+ * returning undefined keeps the upstream message.
+ */
+export function withErrorOutput<C, O>(
+  handler: (ctx: C) => Promise<{ output: O }>,
+  notFound?: (ctx: C) => string | undefined,
+) {
+  return async (ctx: C): Promise<{ output: O | ErrorOutput }> => {
+    try {
+      return await handler(ctx);
+    } catch (error) {
+      if (!(error instanceof NHLApiError)) throw error;
+      return {
+        output: {
+          error: {
+            code: error.code,
+            // Unknown team names already carry a specific message and suggestions
+            message: (error instanceof NotFoundError && !(error instanceof UnknownTeamError) && notFound?.(ctx))
+              || error.message,
+            retryable: error.retryable,
+            ...(error instanceof UpstreamUnavailableError && error.retryAfterSeconds !== undefined
+              ? { retryAfterSeconds: error.retryAfterSeconds }
+              : {}),
+            ...(error instanceof UnknownTeamError ? { suggestions: error.suggestions } : {}),
+          },
+        },
+      };
+    }
+  };
+}
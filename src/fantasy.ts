@@ -0,0 +1,224 @@
+/**
+ * Fantasy scoring over season club stats: points or categories leagues,
+ * tonight's projections and start/sit suggestions from schedule density.
+ *
+ * Points leagues multiply each stat by its configured weight. Categories
+ * leagues sum per-game z-scores over every weighted stat, with the sign of
+ * the weight saying whether more is better (goals against takes a negative
+ * weight). Stats the upstream payload does not carry are reported as
+ * unscored rather than silently counted as zero.
+ */
+
+import { z } from 'zod';
+import { fetchNHL } from './nhl-api';
+import { ScoreSchema, type ClubStats } from './schemas';
+import { clubStatsEndpoint, fetchClubs } from './club-stats';
+import { addDays, isFinal, leagueSchedule, today } from './schedule';
+
+// Games in the next week, today included, for start/sit
+const WEEK_DAYS = 7;
+
+export const SkaterScoringInput = z.object({
+  goals: z.number().default(2),
+  assists: z.number().default(1),
+  powerPlayPoints: z.number().default(0.5),
+  shots: z.number().default(0.1),
+  hits: z.number().default(0.1),
+  blocks: z.number().default(0.5),
+  plusMinus: z.number().default(0),
+  pim: z.number().default(0),
+});
+
+export const GoalieScoringInput = z.object({
+  wins: z.number().default(4),
+  saves: z.number().default(0.2),
+  goalsAgainst: z.number().default(-1),
+  shutouts: z.number().default(3),
+  otLosses: z.number().default(1),
+});
+
+export const ScoringInput = z.object({
+  format: z.enum(['points', 'categories']).default('points'),
+  skater: SkaterScoringInput.default(SkaterScoringInput.parse({})),
+  goalie: GoalieScoringInput.default(GoalieScoringInput.parse({})),
+});
+
+export type Scoring = z.infer<typeof ScoringInput>;
+
+type Skater = ClubStats['skaters'][number];
+type Goalie = ClubStats['goalies'][number];
+
+const SKATER_STATS: Record<keyof Scoring['skater'], (p: Skater) => number | undefined> = {
+  goals: (p) => p.goals,
+  assists: (p) => p.assists,
+  powerPlayPoints: (p) => p.powerPlayPoints,
+  shots: (p) => p.shots,
+  hits: (p) => p.hits,
+  blocks: (p) => p.blockedShots,
+  plusMinus: (p) => p.plusMinus,
+  pim: (p) => p.penaltyMinutes,
+};
+
+const GOALIE_STATS: Record<keyof Scoring['goalie'], (g: Goalie) => number | undefined> = {
+  wins: (g) => g.wins,
+  saves: (g) => g.saves,
+  goalsAgainst: (g) => g.goalsAgainst,
+  shutouts: (g) => g.shutouts,
+  otLosses: (g) => g.overtimeLosses,
+};
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+interface PoolEntry {
+  id: number;
+  name: string;
+  team: string;
+  position: string;
+  type: 'skater' | 'goalie';
+  gamesPlayed: number;
+  // Share of the team's games this player is expected to play
+  playShare: number;
+  stats: Record<string, number | undefined>;
+}
+
+function buildPool(clubs: { team: string; stats: ClubStats }[]): PoolEntry[] {
+  return clubs.flatMap(({ team, stats }) => {
+    const teamGames = Math.max(0, ...stats.skaters.map((p) => p.gamesPlayed));
+    const teamStarts = stats.goalies.reduce((sum, g) => sum + (g.gamesStarted ?? g.gamesPlayed), 0);
+    const skaters = stats.skaters.map((p): PoolEntry => ({
+      id: p.playerId,
+      name: `${p.firstName.default} ${p.lastName.default}`,
+      team,
+      position: p.positionCode,
+      type: 'skater',
+      gamesPlayed: p.gamesPlayed,
+      playShare: teamGames ? p.gamesPlayed / teamGames : 0,
+      stats: Object.fromEntries(Object.entries(SKATER_STATS).map(([k, get]) => [k, get(p)])),
+    }));
+    const goalies = stats.goalies.map((g): PoolEntry => ({
+      id: g.playerId,
+      name: `${g.firstName.default} ${g.lastName.default}`,
+      team,
+      position: 'G',
+      type: 'goalie',
+      gamesPlayed: g.gamesPlayed,
+      playShare: teamStarts ? (g.gamesStarted ?? g.gamesPlayed) / teamStarts : 0,
+      stats: Object.fromEntries(Object.entries(GOALIE_STATS).map(([k, get]) => [k, get(g)])),
+    }));
+    return [...skaters, ...goalies];
+  });
+}
+
+const weightsFor = (p: PoolEntry, scoring: Scoring): Record<string, number> =>
+  p.type === 'skater' ? scoring.skater : scoring.goalie;
+
+// Weighted stats with no value anywhere in the pool
+function unscoredStats(pool: PoolEntry[], scoring: Scoring) {
+  const missing = (type: PoolEntry['type'], weights: Record<string, number>) =>
+    Object.entries(weights)
+      .filter(([stat, weight]) => weight !== 0 && !pool.some((p) => p.type === type && p.stats[stat] !== undefined))
+      .map(([stat]) => `${type}.${stat}`);
+  return [...missing('skater', scoring.skater), ...missing('goalie', scoring.goalie)];
+}
+
+function pointsScore(p: PoolEntry, scoring: Scoring) {
+  return Object.entries(weightsFor(p, scoring))
+    .reduce((sum, [stat, weight]) => sum + weight * (p.stats[stat] ?? 0), 0);
+}
+
+// Sum of signed per-game z-scores over the weighted categories, within each player type
+function categoryScores(pool: PoolEntry[], scoring: Scoring) {
+  const scores = new Map<number, number>();
+  for (const type of ['skater', 'goalie'] as const) {
+    const group = pool.filter((p) => p.type === type && p.gamesPlayed > 0);
+    const weights = type === 'skater' ? scoring.skater : scoring.goalie;
+    for (const [stat, weight] of Object.entries(weights)) {
+      if (weight === 0) continue;
+      const rates = group.map((p) => (p.stats[stat] ?? 0) / p.gamesPlayed);
+      const mean = rates.reduce((a, b) => a + b, 0) / (rates.length || 1);
+      const sd = Math.sqrt(rates.reduce((a, r) => a + (r - mean) ** 2, 0) / (rates.length || 1));
+      if (!sd) continue;
+      group.forEach((p, i) => scores.set(p.id, (scores.get(p.id) ?? 0) + Math.sign(weight) * (rates[i] - mean) / sd));
+    }
+  }
+  return scores;
+}
+
+export async function fantasyRankings(
+  scoring: Scoring,
+  opts: { team?: string; playerIds?: number[]; position?: 'all' | 'skaters' | 'goalies'; limit: number },
+) {
+  const start = today();
+  const end = addDays(start, WEEK_DAYS - 1);
+  const [clubs, score, week] = await Promise.all([
+    fetchClubs(opts.team),
+    fetchNHL('/score/now', ScoreSchema),
+    leagueSchedule(start, end),
+  ]);
+
+  const pool = buildPool(clubs);
+  const categories = scoring.format === 'categories' ? categoryScores(pool, scoring) : null;
+
+  const gamesThisWeek = new Map<string, number>();
+  for (const day of week.days) {
+    for (const g of day.games) {
+      for (const team of [g.home, g.away]) gamesThisWeek.set(team, (gamesThisWeek.get(team) ?? 0) + 1);
+    }
+  }
+  const playingTonight = new Set(score.games
+    .filter((g) => !isFinal(g.gameState))
+    .flatMap((g) => [g.homeTeam.abbrev, g.awayTeam.abbrev]));
+
+  const wanted = pool
+    .filter((p) => !opts.playerIds || opts.playerIds.includes(p.id))
+    .filter((p) => opts.position === 'skaters' ? p.type === 'skater' : opts.position === 'goalies' ? p.type === 'goalie' : true)
+    .filter((p) => p.gamesPlayed > 0);
+
+  const scored = wanted.map((p) => {
+    // Category z-scores are already per game, so projections there rank rather than count
+    const seasonScore = categories ? categories.get(p.id) ?? 0 : pointsScore(p, scoring);
+    const perGame = categories ? seasonScore : seasonScore / p.gamesPlayed;
+    // Goalies only score in games they start
+    const perTeamGame = p.type === 'goalie' ? perGame * p.playShare : perGame;
+    const weekGames = gamesThisWeek.get(p.team) ?? 0;
+    return {
+      id: p.id,
+      name: p.name,
+      team: p.team,
+      position: p.position,
+      type: p.type,
+      gamesPlayed: p.gamesPlayed,
+      score: round(seasonScore, 2),
+      perGame: round(perGame, 2),
+      playsTonight: playingTonight.has(p.team),
+      tonightProjection: playingTonight.has(p.team) ? round(perTeamGame, 2) : 0,
+      gamesThisWeek: weekGames,
+      weekProjection: round(perTeamGame * weekGames, 2),
+    };
+  }).sort((a, b) => b.score - a.score);
+
+  // Start the better half of the pool by projected weekly output
+  const weekly = scored.map((p) => p.weekProjection).sort((a, b) => a - b);
+  const median = weekly.length ? weekly[Math.floor(weekly.length / 2)] : 0;
+
+  return {
+    format: scoring.format,
+    weekOf: { from: start, to: end },
+    unscoredStats: unscoredStats(pool, scoring),
+    rankings: scored.slice(0, opts.limit).map((p, i) => ({ rank: i + 1, ...p })),
+    tonight: scored
+      .filter((p) => p.playsTonight)
+      .sort((a, b) => b.tonightProjection - a.tonightProjection)
+      .slice(0, opts.limit)
+      .map((p) => ({ id: p.id, name: p.name, team: p.team, position: p.position, projection: p.tonightProjection })),
+    startSit: scored.slice(0, opts.limit).map((p) => ({
+      id: p.id,
+      name: p.name,
+      team: p.team,
+      gamesThisWeek: p.gamesThisWeek,
+      weekProjection: p.weekProjection,
+      recommendation: p.weekProjection >= median ? 'start' as const : 'sit' as const,
+    })),
+    endpoints: ['/score/now', ...clubs.map((c) => clubStatsEndpoint(c.team)), ...week.endpoints],
+  };
+}
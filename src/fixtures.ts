@@ -0,0 +1,92 @@
+/**
+ * Offline fixtures for the NHL API client. With NHL_FIXTURES=record every
+ * upstream payload is written under NHL_FIXTURES_DIR as it is fetched; with
+ * NHL_FIXTURES=replay payloads are read from there instead and the network
+ * is never touched, so the agent runs without it.
+ *
+ * A fixture lives at its endpoint's path plus `.json`
+ * (/standings/now -> fixtures/nhl/standings/now.json). In replay, an
+ * endpoint without a fixture answers 404, as upstream does for unknown IDs.
+ * manifest.json keeps the day a set describes (for a recorded set, the day
+ * it was recorded); replay pins "today" to it so date-based endpoints
+ * (/schedule/{date}) find the recorded files.
+ *
+ * Two sets are checked in: fixtures/nhl (a mid-season game day with final,
+ * live and upcoming games) and fixtures/nhl-offseason (final standings, no
+ * games, empty leaderboards). Both are synthetic - generated to the NHL API
+ * payload shapes, not recorded - and their manifests say so.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+export type FixtureMode = 'record' | 'replay';
+
+function parseMode(value: string | undefined): FixtureMode | null {
+  if (!value) return null;
+  if (value === 'record' || value === 'replay') return value;
+  console.warn(`⚠️  Unknown NHL_FIXTURES mode "${value}", expected record or replay; using the live API`);
+  return null;
+}
+
+export const FIXTURE_MODE = parseMode(process.env.NHL_FIXTURES);
+const FIXTURES_DIR = process.env.NHL_FIXTURES_DIR ?? 'fixtures/nhl';
+const MANIFEST = join(FIXTURES_DIR, 'manifest.json');
+
+interface Manifest {
+  date: string;
+  // Set by record mode only; synthetic sets were never recorded
+  recordedAt?: string;
+  endpoints: string[];
+  // A hand-built set, and where it came from; both dropped once the set is re-recorded
+  synthetic?: true;
+  note?: string;
+}
+
+export function fixturePath(endpoint: string) {
+  // Endpoints are built from validated input, but never let one escape the fixture directory
+  if (endpoint.split('/').includes('..')) throw new Error(`Refusing fixture path for ${endpoint}`);
+  // Query strings (stats REST endpoints) become plain file name characters
+  return join(FIXTURES_DIR, `${endpoint.replace(/^\/+/, '').replace(/[^\w\-/.]/g, '_')}.json`);
+}
+
+/** The raw recorded payload for an endpoint, or undefined when none was recorded */
+export function readFixture(endpoint: string): string | undefined {
+  const path = fixturePath(endpoint);
+  return existsSync(path) ? readFileSync(path, 'utf8') : undefined;
+}
+
+function readManifest(): Manifest | null {
+  if (!existsSync(MANIFEST)) return null;
+  return JSON.parse(readFileSync(MANIFEST, 'utf8')) as Manifest;
+}
+
+/** Save a payload as it came from upstream and list it in the manifest */
+export function recordFixture(endpoint: string, data: unknown) {
+  try {
+    const path = fixturePath(endpoint);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${JSON.stringify(data, null, 2)}\n`);
+
+    const now = new Date().toISOString();
+    const manifest = readManifest();
+    const endpoints = new Set(manifest?.endpoints ?? []).add(endpoint);
+    writeFileSync(MANIFEST, `${JSON.stringify({
+      date: now.slice(0, 10),
+      recordedAt: now,
+      endpoints: [...endpoints].sort(),
+    }, null, 2)}\n`);
+  } catch (error: any) {
+    // Recording must never break a live request
+    console.warn(`⚠️  Could not record fixture for ${endpoint}:`, error?.message ?? error);
+  }
+}
+
+let replayDate: string | null | undefined;
+
+/** The day the replayed fixture set was recorded, or null outside replay */
+export function fixtureDate() {
+  if (FIXTURE_MODE !== 'replay') return null;
+  replayDate ??= readManifest()?.date ?? null;
+  return replayDate;
+}
@@ -0,0 +1,206 @@
+/**
+ * Per-game logs for players and teams, with rolling last-5/10/20 windows
+ * and streak detection, so hot and cold runs show up where season totals
+ * would hide them.
+ */
+
+import { fetchNHL } from './nhl-api';
+import { NotFoundError } from './errors';
+import { GameLogSchema, type GameLogEntry } from './schemas';
+import { fetchPlayerLanding, isGoalie, parseToi } from './players';
+import { fetchTeamGames, teamScheduleEndpoint, type TeamGame } from './schedule';
+import { GAME_TYPE_CODES, currentSeason, type GameType } from './seasons';
+
+export const ROLLING_WINDOWS = [5, 10, 20];
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+const sum = <T>(items: T[], value: (item: T) => number | undefined) =>
+  items.reduce((acc, item) => acc + (value(item) ?? 0), 0);
+
+/** Player game-log endpoint for a season and game type */
+export async function gameLogEndpoint(playerId: number, opts: { season?: number; gameType?: GameType }) {
+  const gameType = opts.gameType ?? 'regular';
+  if (!opts.season && gameType === 'regular') return `/player/${playerId}/game-log/now`;
+  const season = opts.season ?? await currentSeason();
+  return `/player/${playerId}/game-log/${season}/${GAME_TYPE_CODES[gameType]}`;
+}
+
+/** The last n games of a chronological list, for each rolling window size */
+function windows<T>(games: T[]) {
+  return ROLLING_WINDOWS.map((size) => ({ size, games: games.slice(-size) }));
+}
+
+/**
+ * Current and longest run of consecutive games matching a test, counting
+ * back from the most recent game for the current run.
+ */
+export function streak<T>(games: T[], test: (game: T) => boolean) {
+  let longest = 0;
+  let run = 0;
+  for (const g of games) {
+    run = test(g) ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+  return { current: run, longest };
+}
+
+function skaterLine(g: GameLogEntry) {
+  return {
+    gameId: g.gameId,
+    date: g.gameDate,
+    opponent: g.opponentAbbrev,
+    home: g.homeRoadFlag === 'H',
+    goals: g.goals ?? 0,
+    assists: g.assists ?? 0,
+    points: g.points ?? 0,
+    plusMinus: g.plusMinus ?? 0,
+    powerPlayGoals: g.powerPlayGoals ?? 0,
+    shots: g.shots ?? 0,
+    pim: g.pim ?? 0,
+    toi: g.toi ?? null,
+  };
+}
+
+function goalieLine(g: GameLogEntry) {
+  return {
+    gameId: g.gameId,
+    date: g.gameDate,
+    opponent: g.opponentAbbrev,
+    home: g.homeRoadFlag === 'H',
+    started: !!g.gamesStarted,
+    decision: g.decision ?? null,
+    shotsAgainst: g.shotsAgainst ?? 0,
+    goalsAgainst: g.goalsAgainst ?? 0,
+    savePctg: g.savePctg !== undefined ? round(g.savePctg, 3) : null,
+    toi: g.toi ?? null,
+  };
+}
+
+type SkaterLine = ReturnType<typeof skaterLine>;
+type GoalieLine = ReturnType<typeof goalieLine>;
+
+function skaterWindow(size: number, games: SkaterLine[]) {
+  const minutes = sum(games, (g) => parseToi(g.toi ?? undefined));
+  return {
+    window: size,
+    games: games.length,
+    goals: sum(games, (g) => g.goals),
+    assists: sum(games, (g) => g.assists),
+    points: sum(games, (g) => g.points),
+    shots: sum(games, (g) => g.shots),
+    pointsPerGame: games.length ? round(sum(games, (g) => g.points) / games.length, 2) : null,
+    shotsPerGame: games.length ? round(sum(games, (g) => g.shots) / games.length, 2) : null,
+    avgToi: games.length && minutes ? round(minutes / games.length, 2) : null,
+  };
+}
+
+function goalieWindow(size: number, games: GoalieLine[]) {
+  const shotsAgainst = sum(games, (g) => g.shotsAgainst);
+  const goalsAgainst = sum(games, (g) => g.goalsAgainst);
+  const minutes = sum(games, (g) => parseToi(g.toi ?? undefined));
+  return {
+    window: size,
+    games: games.length,
+    starts: games.filter((g) => g.started).length,
+    wins: games.filter((g) => g.decision === 'W').length,
+    shotsAgainst,
+    goalsAgainst,
+    savePctg: shotsAgainst ? round((shotsAgainst - goalsAgainst) / shotsAgainst, 3) : null,
+    goalsAgainstAvg: minutes ? round((goalsAgainst * 60) / minutes, 2) : null,
+  };
+}
+
+export async function playerGameLog(playerId: number, opts: { season?: number; gameType?: GameType }) {
+  const endpoint = await gameLogEndpoint(playerId, opts);
+  const [landing, log] = await Promise.all([
+    fetchPlayerLanding(playerId),
+    fetchNHL(endpoint, GameLogSchema),
+  ]).catch((error) => {
+    if (error instanceof NotFoundError) throw new NotFoundError(error.endpoint, `Player ${playerId} not found`);
+    throw error;
+  });
+  // Upstream lists newest first; everything below reads oldest to newest
+  const entries = [...log.gameLog].reverse();
+  const player = {
+    id: landing.playerId,
+    name: `${landing.firstName.default} ${landing.lastName.default}`,
+    team: landing.currentTeamAbbrev,
+    position: landing.position,
+  };
+
+  if (isGoalie(landing)) {
+    const games = entries.map(goalieLine);
+    const starts = games.filter((g) => g.started);
+    return {
+      type: 'goalie' as const,
+      player,
+      games,
+      rolling: windows(games).map((w) => goalieWindow(w.size, w.games)),
+      streaks: {
+        wins: streak(starts, (g) => g.decision === 'W'),
+        // Starts holding the opponent to two goals or fewer
+        twoOrFewerAllowed: streak(starts, (g) => g.goalsAgainst <= 2),
+      },
+      endpoints: [endpoint],
+    };
+  }
+
+  const games = entries.map(skaterLine);
+  return {
+    type: 'skater' as const,
+    player,
+    games,
+    rolling: windows(games).map((w) => skaterWindow(w.size, w.games)),
+    streaks: {
+      points: streak(games, (g) => g.points > 0),
+      goals: streak(games, (g) => g.goals > 0),
+      goalless: streak(games, (g) => g.goals === 0),
+      pointless: streak(games, (g) => g.points === 0),
+    },
+    endpoints: [endpoint],
+  };
+}
+
+function teamWindow(size: number, games: TeamGame[]) {
+  const goalsFor = sum(games, (g) => g.teamScore);
+  const goalsAgainst = sum(games, (g) => g.opponentScore);
+  const wins = games.filter((g) => g.result === 'W').length;
+  const otLosses = games.filter((g) => g.result === 'OTL').length;
+  return {
+    window: size,
+    games: games.length,
+    wins,
+    losses: games.filter((g) => g.result === 'L').length,
+    otLosses,
+    points: 2 * wins + otLosses,
+    goalsFor,
+    goalsAgainst,
+    goalsForPerGame: games.length ? round(goalsFor / games.length, 2) : null,
+    goalsAgainstPerGame: games.length ? round(goalsAgainst / games.length, 2) : null,
+  };
+}
+
+export async function teamGameLog(team: string, opts: { season?: number; gameType?: GameType }) {
+  const games = (await fetchTeamGames(team, opts)).filter((g) => g.result);
+  return {
+    team,
+    games: games.map((g) => ({
+      gameId: g.gameId,
+      date: g.date,
+      opponent: g.opponent,
+      home: g.home,
+      result: g.result!,
+      decidedIn: g.decidedIn,
+      goalsFor: g.teamScore ?? 0,
+      goalsAgainst: g.opponentScore ?? 0,
+    })),
+    rolling: windows(games).map((w) => teamWindow(w.size, w.games)),
+    streaks: {
+      wins: streak(games, (g) => g.result === 'W'),
+      winless: streak(games, (g) => g.result !== 'W'),
+      points: streak(games, (g) => g.result !== 'L'),
+    },
+    endpoints: [teamScheduleEndpoint(team, opts.season)],
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Game detail built from the gamecenter boxscore and play-by-play feeds:
+ * player lines, period-by-period scoring, goals, penalties and shots.
+ */
+
+import { fetchNHL, cacheStatus } from './nhl-api';
+import {
+  BoxscoreSchema,
+  PlayByPlaySchema,
+  type BoxscoreGoalie,
+  type BoxscoreSkater,
+  type Play,
+  type PlayByPlay,
+} from './schemas';
+
+const ORDINALS = ['1st', '2nd', '3rd'];
+
+// "1st", "2nd", "3rd", "OT", "2OT" (playoffs), "SO"
+export function periodLabel(period: { number: number; periodType: string }) {
+  if (period.periodType === 'SO') return 'SO';
+  if (period.periodType === 'OT') {
+    const overtime = period.number - 3;
+    return overtime > 1 ? `${overtime}OT` : 'OT';
+  }
+  return ORDINALS[period.number - 1] ?? `P${period.number}`;
+}
+
+function formatSkater(p: BoxscoreSkater) {
+  return {
+    id: p.playerId,
+    name: p.name.default,
+    number: p.sweaterNumber,
+    position: p.position,
+    goals: p.goals,
+    assists: p.assists,
+    points: p.points,
+    plusMinus: p.plusMinus,
+    pim: p.pim,
+    shots: p.sog,
+    hits: p.hits,
+    blocks: p.blockedShots,
+    powerPlayGoals: p.powerPlayGoals,
+    toi: p.toi,
+  };
+}
+
+function formatGoalie(g: BoxscoreGoalie) {
+  // Older payloads only carry "saves/shots" as a single string
+  const [saves, shots] = g.saveShotsAgainst?.split('/').map(Number) ?? [];
+  const shotsAgainst = g.shotsAgainst ?? shots;
+  const saveCount = g.saves ?? saves;
+  return {
+    id: g.playerId,
+    name: g.name.default,
+    number: g.sweaterNumber,
+    saves: saveCount,
+    shotsAgainst,
+    goalsAgainst: g.goalsAgainst ?? (shotsAgainst !== undefined && saveCount !== undefined ? shotsAgainst - saveCount : undefined),
+    savePctg: g.savePctg,
+    toi: g.toi,
+    starter: g.starter,
+    decision: g.decision,
+  };
+}
+
+function summarizePlays(pbp: PlayByPlay) {
+  const names = new Map(pbp.rosterSpots.map((r) => [r.playerId, `${r.firstName.default} ${r.lastName.default}`]));
+  const nameOf = (id?: number) => (id !== undefined ? names.get(id) ?? `#${id}` : undefined);
+  const teamOf = (play: Play) =>
+    play.details?.eventOwnerTeamId === pbp.homeTeam.id ? pbp.homeTeam.abbrev
+      : play.details?.eventOwnerTeamId === pbp.awayTeam.id ? pbp.awayTeam.abbrev
+        : undefined;
+
+  const periods = new Map<number, { period: number; label: string; homeGoals: number; awayGoals: number; homeShots: number; awayShots: number }>();
+  const periodRow = (play: Play) => {
+    const { number } = play.periodDescriptor;
+    let row = periods.get(number);
+    if (!row) {
+      row = { period: number, label: periodLabel(play.periodDescriptor), homeGoals: 0, awayGoals: 0, homeShots: 0, awayShots: 0 };
+      periods.set(number, row);
+    }
+    return row;
+  };
+
+  const goals = [];
+  const penalties = [];
+  for (const play of pbp.plays) {
+    const team = teamOf(play);
+    const isHome = team === pbp.homeTeam.abbrev;
+    const shootout = play.periodDescriptor.periodType === 'SO';
+
+    if (play.typeDescKey === 'period-start') periodRow(play);
+
+    if (play.typeDescKey === 'goal' || play.typeDescKey === 'shot-on-goal') {
+      const row = periodRow(play);
+      if (!shootout && team) row[isHome ? 'homeShots' : 'awayShots']++;
+    }
+
+    if (play.typeDescKey === 'goal' && team) {
+      const row = periodRow(play);
+      row[isHome ? 'homeGoals' : 'awayGoals']++;
+      if (shootout) continue;
+      goals.push({
+        period: play.periodDescriptor.number,
+        periodLabel: periodLabel(play.periodDescriptor),
+        time: play.timeInPeriod,
+        team,
+        scorer: nameOf(play.details?.scoringPlayerId) ?? 'Unknown',
+        assists: [play.details?.assist1PlayerId, play.details?.assist2PlayerId]
+          .filter((id): id is number => id !== undefined)
+          .map((id) => nameOf(id)!),
+        homeScore: play.details?.homeScore,
+        awayScore: play.details?.awayScore,
+      });
+    }
+
+    if (play.typeDescKey === 'penalty') {
+      penalties.push({
+        period: play.periodDescriptor.number,
+        periodLabel: periodLabel(play.periodDescriptor),
+        time: play.timeInPeriod,
+        team,
+        player: nameOf(play.details?.committedByPlayerId),
+        infraction: play.details?.descKey,
+        minutes: play.details?.duration,
+      });
+    }
+  }
+
+  return {
+    periods: [...periods.values()].sort((a, b) => a.period - b.period),
+    goals,
+    penalties,
+  };
+}
+
+export async function getGameDetail(gameId: number) {
+  const [boxscore, pbp] = await Promise.all([
+    fetchNHL(`/gamecenter/${gameId}/boxscore`, BoxscoreSchema),
+    fetchNHL(`/gamecenter/${gameId}/play-by-play`, PlayByPlaySchema),
+  ]);
+
+  const { periods, goals, penalties } = summarizePlays(pbp);
+  const stats = boxscore.playerByGameStats;
+  const teamBox = (side: 'homeTeam' | 'awayTeam') => ({
+    skaters: stats ? [...stats[side].forwards, ...stats[side].defense].map(formatSkater) : [],
+    goalies: stats ? stats[side].goalies.map(formatGoalie) : [],
+  });
+
+  return {
+    game: {
+      id: boxscore.id,
+      date: boxscore.gameDate,
+      state: boxscore.gameState,
+      startTime: boxscore.startTimeUTC,
+      venue: boxscore.venue?.default,
+      period: boxscore.periodDescriptor ? periodLabel(boxscore.periodDescriptor) : null,
+      clock: boxscore.clock ?? null,
+      home: { abbrev: boxscore.homeTeam.abbrev, score: boxscore.homeTeam.score, shots: boxscore.homeTeam.sog },
+      away: { abbrev: boxscore.awayTeam.abbrev, score: boxscore.awayTeam.score, shots: boxscore.awayTeam.sog },
+    },
+    periods,
+    goals,
+    penalties,
+    shotsOnGoal: {
+      home: boxscore.homeTeam.sog ?? periods.reduce((sum, p) => sum + p.homeShots, 0),
+      away: boxscore.awayTeam.sog ?? periods.reduce((sum, p) => sum + p.awayShots, 0),
+    },
+    boxscore: {
+      home: teamBox('homeTeam'),
+      away: teamBox('awayTeam'),
+    },
+    cache: cacheStatus(`/gamecenter/${gameId}/boxscore`, `/gamecenter/${gameId}/play-by-play`),
+  };
+}
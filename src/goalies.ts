@@ -0,0 +1,109 @@
+/**
+ * Goalie workload for one team or the whole league: starts, share of the
+ * team's starts, recent starts and a projected starter for tonight's games.
+ *
+ * The NHL does not publish confirmed starters, so the projection is a rule
+ * of thumb: the team's starts leader, unless they started yesterday, in
+ * which case the goalie with the next most starts.
+ */
+
+import { fetchNHL } from './nhl-api';
+import { ScoreSchema, type ClubStats, type LastGame } from './schemas';
+import { clubStatsEndpoint, fetchClubs } from './club-stats';
+import { fetchPlayerLanding, playerLandingEndpoint } from './players';
+import { addDays, today } from './schedule';
+
+const PREGAME_STATES = new Set(['FUT', 'PRE']);
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+type ClubGoalie = ClubStats['goalies'][number];
+
+const starts = (g: ClubGoalie) => g.gamesStarted ?? g.gamesPlayed;
+
+function recentStart(g: LastGame) {
+  return {
+    gameId: g.gameId,
+    date: g.gameDate,
+    opponent: g.opponentAbbrev,
+    home: g.homeRoadFlag === 'H',
+    decision: g.decision ?? null,
+    shotsAgainst: g.shotsAgainst ?? null,
+    goalsAgainst: g.goalsAgainst ?? null,
+    savePctg: g.savePctg !== undefined ? round(g.savePctg, 3) : null,
+  };
+}
+
+// Recent starts for goalies who have played, or [] when a landing fails to load
+async function loadRecentStarts(goalies: ClubGoalie[]) {
+  const results = await Promise.allSettled(goalies.map((g) => fetchPlayerLanding(g.playerId)));
+  const recent = new Map<number, ReturnType<typeof recentStart>[]>();
+  results.forEach((r, i) => {
+    const games = r.status === 'fulfilled' ? r.value.last5Games : [];
+    recent.set(goalies[i].playerId, games.filter((g) => g.gamesStarted).map(recentStart));
+  });
+  return recent;
+}
+
+export async function listGoalies(team?: string) {
+  const [score, clubs] = await Promise.all([fetchNHL('/score/now', ScoreSchema), fetchClubs(team)]);
+
+  const gameDay = score.currentDate ?? today();
+  const yesterday = addDays(gameDay, -1);
+  const tonight = new Map<string, { gameId: number; opponent: string; home: boolean; startTime?: string }>();
+  for (const g of score.games.filter((g) => PREGAME_STATES.has(g.gameState))) {
+    tonight.set(g.homeTeam.abbrev, { gameId: g.id, opponent: g.awayTeam.abbrev, home: true, startTime: g.startTimeUTC });
+    tonight.set(g.awayTeam.abbrev, { gameId: g.id, opponent: g.homeTeam.abbrev, home: false, startTime: g.startTimeUTC });
+  }
+
+  // Recent starts for a single team, or league-wide only where a projection needs them
+  const needRecent = clubs
+    .filter((c) => team || tonight.has(c.team))
+    .flatMap((c) => c.stats.goalies.filter((g) => g.gamesPlayed > 0));
+  const recent = await loadRecentStarts(needRecent);
+
+  const goalies = clubs.flatMap(({ team: abbrev, stats }) => {
+    const teamStarts = stats.goalies.reduce((sum, g) => sum + starts(g), 0);
+    return stats.goalies.map((g) => ({
+      id: g.playerId,
+      name: `${g.firstName.default} ${g.lastName.default}`,
+      team: abbrev,
+      gamesPlayed: g.gamesPlayed,
+      gamesStarted: starts(g),
+      startShare: teamStarts ? round(starts(g) / teamStarts, 3) : null,
+      record: `${g.wins ?? 0}-${g.losses ?? 0}-${g.overtimeLosses ?? 0}`,
+      savePctg: g.savePercentage !== undefined ? round(g.savePercentage, 3) : null,
+      goalsAgainstAvg: g.goalsAgainstAverage !== undefined ? round(g.goalsAgainstAverage, 2) : null,
+      shutouts: g.shutouts ?? 0,
+      recentStarts: recent.get(g.playerId) ?? null,
+    }));
+  }).sort((a, b) => b.gamesStarted - a.gamesStarted || a.name.localeCompare(b.name));
+
+  const tonightsGames = clubs.filter((c) => tonight.has(c.team)).map(({ team: abbrev }) => {
+    const depth = goalies.filter((g) => g.team === abbrev && g.gamesStarted > 0);
+    const [starter, backup] = depth;
+    const startedYesterday = starter?.recentStarts?.some((s) => s.date === yesterday) ?? false;
+    const projected = startedYesterday && backup ? backup : starter;
+    return {
+      team: abbrev,
+      ...tonight.get(abbrev)!,
+      projectedStarter: projected ? {
+        id: projected.id,
+        name: projected.name,
+        basis: projected === starter ? 'starts leader' as const : 'starter played yesterday' as const,
+      } : null,
+    };
+  });
+
+  return {
+    scope: team ? 'team' as const : 'league' as const,
+    date: gameDay,
+    goalies,
+    tonight: tonightsGames,
+    endpoints: [
+      '/score/now',
+      ...clubs.map((c) => clubStatsEndpoint(c.team)),
+      ...needRecent.map((g) => playerLandingEndpoint(g.playerId)),
+    ],
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Self-verification of the agent's ERC-8004 identity. The metadata document
+ * advertises a registry, owner, x402 receiver and registration transaction;
+ * this reads the registry back and checks they hold for this deployment:
+ *
+ * - the registration transaction minted an agent token in the registry
+ * - the token's URI is this deployment's metadata document
+ * - the token's owner is the advertised owner and x402 receiver
+ * - the payments config pays the advertised receiver
+ *
+ * Mismatches are logged loudly at startup and on every re-check, so a
+ * misconfigured deploy cannot quietly collect payments to the wrong address.
+ */
+
+import { createPublicClient, http, type Address, type Hex } from 'viem';
+import { mainnet } from 'viem/chains';
+import { AGENT_IDENTITY, METADATA_PATH } from './catalog';
+import { REGISTRY_ABI, mintedAgentId } from './registration';
+
+const RPC_URL = process.env.IDENTITY_RPC_URL || process.env.RPC_URL || 'https://eth.llamarpc.com';
+// 0 turns off the startup check and re-checks; results are then read on demand
+const CHECK_INTERVAL_MS = Number(process.env.IDENTITY_CHECK_INTERVAL_MS ?? 60 * 60 * 1000);
+// How long a result answers the free identity-status entrypoint before the registry is read again
+const STATUS_MAX_AGE_MS = CHECK_INTERVAL_MS || 60 * 60 * 1000;
+
+export type CheckStatus = 'pass' | 'fail' | 'skipped';
+
+export interface IdentityCheck {
+  name: 'registration' | 'token-uri' | 'owner' | 'receiver' | 'payments';
+  status: CheckStatus;
+  expected: string | null;
+  actual: string | null;
+  message: string;
+}
+
+export interface IdentityStatus {
+  // verified: no check failed; unverified: the registry could not be read
+  status: 'verified' | 'mismatch' | 'unverified';
+  agentId: string | null;
+  registry: string;
+  chainId: number;
+  agentURI: string | null;
+  checks: IdentityCheck[];
+  error: string | null;
+  checkedAt: string;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/** This deployment's agent URI, when AGENT_DOMAIN says where it is served */
+function expectedAgentURI() {
+  const domain = process.env.AGENT_DOMAIN;
+  return domain ? `https://${domain}${METADATA_PATH}` : null;
+}
+
+function compare(name: IdentityCheck['name'], expected: string | null, actual: string | null, matches: boolean, subject: string): IdentityCheck {
+  if (expected === null) return { name, status: 'skipped', expected, actual, message: `${subject}: nothing to compare against` };
+  return matches
+    ? { name, status: 'pass', expected, actual, message: `${subject} matches` }
+    : { name, status: 'fail', expected, actual, message: `${subject} is ${actual ?? 'missing'}, expected ${expected}` };
+}
+
+// Compared without the registry: the address payments are configured to settle to
+function paymentsCheck(): IdentityCheck {
+  const payTo = process.env.PAYMENTS_RECEIVABLE_ADDRESS ?? null;
+  const receiver = AGENT_IDENTITY.x402.receiverAddress;
+  if (payTo === null) {
+    return { name: 'payments', status: 'skipped', expected: receiver, actual: null, message: 'PAYMENTS_RECEIVABLE_ADDRESS is not set' };
+  }
+  return compare('payments', receiver, payTo, sameAddress(payTo, receiver), 'Payments receivable address');
+}
+
+/** The agent ID from AGENT_ID, or else from the advertised registration transaction */
+async function registeredAgentId(client: ReturnType<typeof createPublicClient>) {
+  if (process.env.AGENT_ID) return BigInt(process.env.AGENT_ID);
+  const receipt = await client.getTransactionReceipt({ hash: AGENT_IDENTITY.erc8004.transactionHash as Hex });
+  return mintedAgentId(receipt.logs, AGENT_IDENTITY.erc8004.registry);
+}
+
+/** Read the registry and compare it with the advertised identity */
+export async function verifyIdentity(): Promise<IdentityStatus> {
+  const { erc8004, owner, x402 } = AGENT_IDENTITY;
+  const registry = erc8004.registry as Address;
+  const agentURI = expectedAgentURI();
+  const checks: IdentityCheck[] = [];
+  let agentId: bigint | null = null;
+  let error: string | null = null;
+
+  try {
+    const client = createPublicClient({ chain: mainnet, transport: http(RPC_URL) });
+    agentId = await registeredAgentId(client);
+    if (agentId === null) {
+      checks.push({
+        name: 'registration',
+        status: 'fail',
+        expected: registry,
+        actual: null,
+        message: `Transaction ${erc8004.transactionHash} minted no agent token in registry ${registry}`,
+      });
+    } else {
+      checks.push({ name: 'registration', status: 'pass', expected: registry, actual: String(agentId), message: `Registered as agent ${agentId}` });
+      const [tokenOwner, tokenURI] = await Promise.all([
+        client.readContract({ address: registry, abi: REGISTRY_ABI, functionName: 'ownerOf', args: [agentId] }),
+        client.readContract({ address: registry, abi: REGISTRY_ABI, functionName: 'tokenURI', args: [agentId] }),
+      ]);
+      checks.push(
+        compare('token-uri', agentURI, tokenURI, tokenURI === agentURI, 'Token URI'),
+        compare('owner', owner, tokenOwner, sameAddress(tokenOwner, owner), 'Token owner'),
+        compare('receiver', x402.receiverAddress, tokenOwner, sameAddress(tokenOwner, x402.receiverAddress), 'Token owner (x402 receiver)'),
+      );
+    }
+  } catch (e: any) {
+    error = e?.shortMessage ?? e?.message ?? String(e);
+  }
+  checks.push(paymentsCheck());
+
+  const failed = checks.some((c) => c.status === 'fail');
+  return {
+    status: failed ? 'mismatch' : error ? 'unverified' : 'verified',
+    agentId: agentId === null ? null : String(agentId),
+    registry,
+    chainId: erc8004.chainId,
+    agentURI,
+    checks,
+    error,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+function report(result: IdentityStatus) {
+  if (result.status === 'verified') {
+    console.log(`🪪 ERC-8004 identity verified: agent ${result.agentId}`);
+    return;
+  }
+  if (result.status === 'unverified') {
+    console.warn('⚠️  ERC-8004 identity could not be verified:', result.error);
+  }
+  for (const check of result.checks.filter((c) => c.status === 'fail')) {
+    console.error(`🚨 ERC-8004 identity mismatch (${check.name}): ${check.message}`);
+  }
+}
+
+let latest: IdentityStatus | undefined;
+let pending: Promise<IdentityStatus> | undefined;
+
+/** Run the check, sharing one in-flight read between concurrent callers */
+export function checkIdentity() {
+  pending ??= verifyIdentity()
+    .then((result) => {
+      latest = result;
+      report(result);
+      return result;
+    })
+    .finally(() => {
+      pending = undefined;
+    });
+  return pending;
+}
+
+/** The latest result while it is fresh, else a new check */
+export async function identityStatus() {
+  const fresh = latest && Date.now() - Date.parse(latest.checkedAt) < STATUS_MAX_AGE_MS;
+  return fresh ? latest! : checkIdentity();
+}
+
+let timer: ReturnType<typeof setInterval> | undefined;
+
+/** Check at startup and re-check on an interval */
+export function startIdentityCheck() {
+  if (timer || !CHECK_INTERVAL_MS) return;
+  timer = setInterval(checkIdentity, CHECK_INTERVAL_MS);
+  checkIdentity();
+}
@@ -4,10 +4,114 @@ import { createAgentApp } from '@lucid-agents/hono';
 import { payments, paymentsFromEnv } from '@lucid-agents/payments';
 import { wallets, walletsFromEnv } from '@lucid-agents/wallet';
 import { identity, identityFromEnv } from '@lucid-agents/identity';
+import { Hono, type Context } from 'hono';
 import { z } from 'zod';
-
-const NHL_API = 'https://api-web.nhle.com/v1';
-const USER_AGENT = 'Mozilla/5.0 (compatible; NHLStatsAgent/1.0)';
+import { fetchNHL, cacheStatus } from './nhl-api';
+import { NotFoundError, withErrorOutput, withErrorSchema, type ErrorOutput } from './errors';
+import { FormatInput, formatted, withFormat } from './render';
+import { reportMarkdown, reportText } from './report-digest';
+import {
+  ClubStatsSchema,
+  LeadersSchema,
+  RosterSchema,
+  ScoreSchema,
+  StandingsSchema,
+  type Leader,
+  type RosterPlayer,
+  type StandingsTeam,
+} from './schemas';
+import {
+  AskOutput,
+  ComparePlayersOutput,
+  FantasyOutput,
+  GameOutput,
+  GoaliesOutput,
+  HistoryOutput,
+  IdentityStatusOutput,
+  LeadersOutput,
+  LiveScoresOutput,
+  MatchupOutput,
+  OverviewOutput,
+  PlayerAmbiguousOutput,
+  PlayerGameLogOutput,
+  PlayerOutput,
+  PlayerSearchOutput,
+  PlayoffPictureOutput,
+  ProjectionsOutput,
+  ReportOutput,
+  ScheduleOutput,
+  StandingsOutput,
+  TeamGameLogOutput,
+  TeamOutput,
+  TeamsOutput,
+  WebhookOutput,
+} from './outputs';
+import { FRANCHISES, abbrevInSeason, getFranchise, resolveTeam } from './teams';
+import { pickUnambiguous, searchPlayers } from './player-search';
+import { getGameDetail } from './game';
+import {
+  careerTotal,
+  currentSeasonTotal,
+  fetchPlayerLanding,
+  goalieLine,
+  isGoalie,
+  playerLandingEndpoint,
+} from './players';
+import { comparePlayers } from './compare';
+import {
+  MAX_LEAGUE_RANGE_DAYS,
+  addDays,
+  daysBetween,
+  fetchTeamGames,
+  leagueSchedule,
+  teamSchedule,
+  teamScheduleEndpoint,
+  today,
+  type TeamGame,
+} from './schedule';
+import { playoffPicture } from './playoffs';
+import { DEFAULT_ITERATIONS, projectSeason } from './projections';
+import { gameTeams, matchupPreview } from './matchup';
+import { clubLeaders, clubStatsSeasonEndpoint } from './club-stats';
+import { listGoalies } from './goalies';
+import { playerGameLog, teamGameLog } from './game-logs';
+import { ScoringInput, fantasyRankings } from './fantasy';
+import { answerQuestion, parseQuestion, resolveQuestion, type AskIntent } from './ask';
+import { identityStatus, startIdentityCheck } from './identity-status';
+import { forwardedRequest, handleUsageReport, meterUsage } from './usage';
+import { METADATA_PATH, OPENAPI_PATH, agentMetadata, catalogRouter, catalogued, openApiDocument, priceOf, toUsd } from './catalog';
+import {
+  PLAYER_METRICS,
+  TEAM_METRICS,
+  playerSeries,
+  previousStandings,
+  rankChange,
+  startSnapshotter,
+  teamSeries,
+  type PlayerMetric,
+  type TeamMetric,
+} from './snapshots';
+import { createSubscription, handleLiveStream, summarizeGame } from './live-scores';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WEBHOOK_EVENTS,
+  WebhookUrlInput,
+  createWebhook,
+  handleWebhookDelete,
+  handleWebhookStatus,
+  resolveScope,
+  startWebhooks,
+} from './webhooks';
+import {
+  DateInput,
+  GameTypeInput,
+  SeasonInput,
+  leadersEndpoint,
+  pointInTime,
+  seasonSegment,
+  standingsEndpoint,
+} from './seasons';
 
 const agent = await createAgent({
   name: 'nhl-stats-agent',
@@ -20,102 +124,44 @@ const agent = await createAgent({
   .use(identity({ config: identityFromEnv() }))
   .build();
 
-const { app, addEntrypoint } = await createAgentApp(agent);
-
-// Serve agent metadata for ERC-8004 identity verification
-app.get('/.well-known/agent-metadata.json', (c) => {
-  return c.json({
-    name: 'NHL Stats Agent',
-    description: 'Live NHL hockey stats, standings, and player data via x402 micropayments',
-    version: '1.0.0',
-    owner: '0x0C3D21e8835990427405F6FeA649f1fb8CB30ED6',
-    chain: 'eip155:1',
-    registeredAt: '2026-01-31T05:39:29.362Z',
-    capabilities: [
-      { name: 'overview', description: 'Free NHL overview', price: 0 },
-      { name: 'standings', description: 'NHL standings', price: 0.001 },
-      { name: 'player', description: 'Player stats', price: 0.002 },
-      { name: 'leaders', description: 'Stats leaders', price: 0.002 },
-      { name: 'team', description: 'Team details', price: 0.003 },
-      { name: 'report', description: 'Full report', price: 0.005 },
-    ],
-    x402: {
-      receiverAddress: '0x0C3D21e8835990427405F6FeA649f1fb8CB30ED6',
-      network: 'base',
-      facilitator: 'https://facilitator.daydreams.systems',
-    },
-    erc8004: {
-      registry: '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432',
-      chainId: 1,
-      transactionHash: '0x244b6c16d66165ec2156297b41d6c1b0d49ea601f58e392ddecbf315979efa92',
-    },
-  });
-});
+const { app, addEntrypoint: mountEntrypoint } = await createAgentApp(agent);
+const addEntrypoint = catalogued(mountEntrypoint);
 
-// === HELPER: Fetch NHL API ===
-async function fetchNHL(endpoint: string) {
-  const response = await fetch(`${NHL_API}${endpoint}`, {
-    headers: { 'User-Agent': USER_AGENT }
-  });
-  if (!response.ok) throw new Error(`NHL API error: ${response.status}`);
-  return response.json();
+// Agent metadata for ERC-8004 identity verification, and the input/output catalog, both generated from the entrypoints
+app.get(METADATA_PATH, (c) => c.json(agentMetadata()));
+app.get(OPENAPI_PATH, (c) => c.json(openApiDocument()));
+
+function formatStreak(t: StandingsTeam) {
+  return t.streakCode ? `${t.streakCode}${t.streakCount ?? ''}` : null;
 }
 
-// Team abbreviation mapping for lookups
-const TEAMS: Record<string, string> = {
-  'avalanche': 'COL', 'colorado': 'COL', 'col': 'COL',
-  'oilers': 'EDM', 'edmonton': 'EDM', 'edm': 'EDM',
-  'lightning': 'TBL', 'tampa': 'TBL', 'tbl': 'TBL',
-  'bruins': 'BOS', 'boston': 'BOS', 'bos': 'BOS',
-  'hurricanes': 'CAR', 'carolina': 'CAR', 'car': 'CAR',
-  'stars': 'DAL', 'dallas': 'DAL', 'dal': 'DAL',
-  'wild': 'MIN', 'minnesota': 'MIN', 'min': 'MIN',
-  'penguins': 'PIT', 'pittsburgh': 'PIT', 'pit': 'PIT',
-  'sabres': 'BUF', 'buffalo': 'BUF', 'buf': 'BUF',
-  'canadiens': 'MTL', 'montreal': 'MTL', 'mtl': 'MTL',
-  'knights': 'VGK', 'vegas': 'VGK', 'vgk': 'VGK',
-  'sharks': 'SJS', 'sanjose': 'SJS', 'sjs': 'SJS',
-  'kraken': 'SEA', 'seattle': 'SEA', 'sea': 'SEA',
-  'ducks': 'ANA', 'anaheim': 'ANA', 'ana': 'ANA',
-  'flames': 'CGY', 'calgary': 'CGY', 'cgy': 'CGY',
-  'canucks': 'VAN', 'vancouver': 'VAN', 'van': 'VAN',
-  'kings': 'LAK', 'losangeles': 'LAK', 'lak': 'LAK',
-  'jets': 'WPG', 'winnipeg': 'WPG', 'wpg': 'WPG',
-  'predators': 'NSH', 'nashville': 'NSH', 'nsh': 'NSH',
-  'blues': 'STL', 'stlouis': 'STL', 'stl': 'STL',
-  'blackhawks': 'CHI', 'chicago': 'CHI', 'chi': 'CHI',
-  'mammoth': 'UTA', 'utah': 'UTA', 'uta': 'UTA',
-  'panthers': 'FLA', 'florida': 'FLA', 'fla': 'FLA',
-  'redwings': 'DET', 'detroit': 'DET', 'det': 'DET',
-  'senators': 'OTT', 'ottawa': 'OTT', 'ott': 'OTT',
-  'mapleleafs': 'TOR', 'toronto': 'TOR', 'tor': 'TOR',
-  'rangers': 'NYR', 'newyork': 'NYR', 'nyr': 'NYR',
-  'islanders': 'NYI', 'nyi': 'NYI',
-  'devils': 'NJD', 'newjersey': 'NJD', 'njd': 'NJD',
-  'flyers': 'PHI', 'philadelphia': 'PHI', 'phi': 'PHI',
-  'capitals': 'WSH', 'washington': 'WSH', 'wsh': 'WSH',
-  'bluejackets': 'CBJ', 'columbus': 'CBJ', 'cbj': 'CBJ',
-};
+const playerName = (p: { firstName: { default: string }; lastName: { default: string } }) =>
+  `${p.firstName.default} ${p.lastName.default}`;
 
-function resolveTeam(input: string): string {
-  const normalized = input.toLowerCase().replace(/\s+/g, '');
-  return TEAMS[normalized] || input.toUpperCase();
-}
+// SSE stream for paid live-scores subscriptions
+app.get('/live/:subscriptionId', handleLiveStream);
+
+// Delivery log and cancellation for paid webhook subscriptions
+app.get('/webhooks/:subscriptionId', handleWebhookStatus);
+app.delete('/webhooks/:subscriptionId', handleWebhookDelete);
 
 // === FREE ENDPOINT: Overview ===
 addEntrypoint({
   key: 'overview',
   description: 'Free NHL overview - top teams, leading scorers, and today\'s games',
-  input: z.object({}),
+  input: z.object({
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(OverviewOutput)),
   price: { amount: 0 },
-  handler: async () => {
+  handler: withFormat(withErrorOutput(async () => {
     const [standings, leaders, scores] = await Promise.all([
-      fetchNHL('/standings/now'),
-      fetchNHL('/skater-stats-leaders/current'),
-      fetchNHL('/score/now').catch(() => ({ games: [] })),
+      fetchNHL('/standings/now', StandingsSchema),
+      fetchNHL('/skater-stats-leaders/current', LeadersSchema),
+      fetchNHL('/score/now', ScoreSchema).catch(() => ({ games: [] })),
     ]);
 
-    const topTeams = standings.standings.slice(0, 5).map((t: any) => ({
+    const topTeams = standings.standings.slice(0, 5).map((t) => ({
       team: t.teamAbbrev.default,
       points: t.points,
       wins: t.wins,
@@ -124,19 +170,19 @@ addEntrypoint({
       goalDiff: t.goalDifferential,
     }));
 
-    const topScorers = leaders.points?.slice(0, 5).map((p: any) => ({
-      name: `${p.firstName.default} ${p.lastName.default}`,
+    const topScorers = (leaders.points ?? []).slice(0, 5).map((p) => ({
+      name: playerName(p),
       team: p.teamAbbrev,
       points: p.value,
-    })) || [];
+    }));
 
-    const todayGames = scores.games?.slice(0, 5).map((g: any) => ({
-      home: g.homeTeam?.abbrev || 'TBD',
-      away: g.awayTeam?.abbrev || 'TBD',
+    const todayGames = scores.games.slice(0, 5).map((g) => ({
+      home: g.homeTeam.abbrev,
+      away: g.awayTeam.abbrev,
       state: g.gameState,
-      homeScore: g.homeTeam?.score,
-      awayScore: g.awayTeam?.score,
-    })) || [];
+      homeScore: g.homeTeam.score,
+      awayScore: g.awayTeam.score,
+    }));
 
     return {
       output: {
@@ -145,281 +191,409 @@ addEntrypoint({
         todayGames,
         fetchedAt: new Date().toISOString(),
         dataSource: 'NHL Official API (live)',
+        cache: cacheStatus('/standings/now', '/skater-stats-leaders/current', '/score/now'),
       }
     };
-  },
+  })),
 });
 
 // === PAID ENDPOINT 1 ($0.001): Standings ===
+const StandingsInput = z.object({
+  conference: z.enum(['eastern', 'western', 'all']).optional().default('all'),
+  season: SeasonInput.optional().describe('Final standings of a past season (e.g., 20222023)'),
+  date: DateInput.optional().describe('Standings as of a date (e.g., 2024-01-01)'),
+  format: FormatInput,
+});
+
+const standingsHandler = withErrorOutput(async (ctx: { input: z.output<typeof StandingsInput> }) => {
+  const endpoint = await standingsEndpoint(ctx.input);
+  const data = await fetchNHL(endpoint, StandingsSchema);
+  // Final standings of a past season have no earlier snapshot to compare with
+  const previous = ctx.input.season ? null : previousStandings(ctx.input.date ?? today());
+
+  let standings = data.standings.map((t) => ({
+    team: t.teamAbbrev.default,
+    teamName: t.teamName.default,
+    conference: t.conferenceAbbrev,
+    division: t.divisionName,
+    gamesPlayed: t.gamesPlayed,
+    wins: t.wins,
+    losses: t.losses,
+    otLosses: t.otLosses,
+    points: t.points,
+    pointPctg: t.pointPctg,
+    goalFor: t.goalFor,
+    goalAgainst: t.goalAgainst,
+    goalDifferential: t.goalDifferential,
+    streak: formatStreak(t),
+    last10: `${t.l10Wins}-${t.l10Losses}-${t.l10OtLosses}`,
+    change: rankChange(t, previous),
+  }));
+
+  if (ctx.input.conference !== 'all') {
+    const conf = ctx.input.conference === 'eastern' ? 'E' : 'W';
+    standings = standings.filter((t) => t.conference === conf);
+  }
+
+  return {
+    output: {
+      standings,
+      asOf: data.standingsDateTimeUtc,
+      season: ctx.input.season ?? null,
+      date: ctx.input.date ?? null,
+      comparedTo: previous?.date ?? null,
+      count: standings.length,
+      cache: cacheStatus(endpoint),
+    }
+  };
+});
+
 addEntrypoint({
   key: 'standings',
-  description: 'Full NHL standings by conference and division',
-  input: z.object({
-    conference: z.enum(['eastern', 'western', 'all']).optional().default('all'),
-  }),
+  description: 'Full NHL standings by conference and division, now or as of a past date or season',
+  input: StandingsInput,
+  output: withErrorSchema(formatted(StandingsOutput)),
   price: { amount: 1000 },
-  handler: async (ctx) => {
-    const data = await fetchNHL('/standings/now');
-    
-    let standings = data.standings.map((t: any) => ({
-      team: t.teamAbbrev.default,
-      teamName: t.teamName.default,
-      conference: t.conferenceAbbrev,
-      division: t.divisionName,
-      gamesPlayed: t.gamesPlayed,
-      wins: t.wins,
-      losses: t.losses,
-      otLosses: t.otLosses,
-      points: t.points,
-      pointPctg: t.pointPctg,
-      goalFor: t.goalFor,
-      goalAgainst: t.goalAgainst,
-      goalDifferential: t.goalDifferential,
-      streak: `${t.streakCode}${t.streakCount}`,
-      last10: `${t.l10Wins}-${t.l10Losses}-${t.l10OtLosses}`,
-    }));
+  handler: withFormat(standingsHandler),
+});
 
-    if (ctx.input.conference !== 'all') {
-      const conf = ctx.input.conference === 'eastern' ? 'E' : 'W';
-      standings = standings.filter((t: any) => t.conference === conf);
+// === PAID ENDPOINT 2 ($0.002): Player Stats ===
+const PlayerInput = z.object({
+  playerId: z.number().optional().describe('NHL player ID (e.g., 8478402 for McDavid)'),
+  name: z.string().optional().describe('Player name, partial names and team hints work (e.g., "McDavid", "Hughes NJD")'),
+  format: FormatInput,
+}).refine((i) => i.playerId !== undefined || !!i.name, { message: 'Provide playerId or name' });
+
+const playerHandler = withErrorOutput(async (ctx: { input: z.output<typeof PlayerInput> }): Promise<{
+  output: z.input<typeof PlayerOutput> | z.input<typeof PlayerAmbiguousOutput>;
+}> => {
+  let playerId = ctx.input.playerId;
+  if (playerId === undefined) {
+    const name = ctx.input.name!;
+    const search = await searchPlayers(name, { limit: 5 });
+    const match = pickUnambiguous(search.candidates);
+    if (!match) {
+      if (search.candidates.length === 0) throw new NotFoundError('/roster');
+      return { output: { ambiguous: true as const, query: name, candidates: search.candidates } };
     }
+    playerId = match.id;
+  }
+
+  const data = await fetchPlayerLanding(playerId);
+
+  const stats = data.featuredStats?.regularSeason?.subSeason || {};
+  const career = data.featuredStats?.regularSeason?.career || {};
+  const player = {
+    id: data.playerId,
+    name: playerName(data),
+    team: data.currentTeamAbbrev,
+    teamName: data.fullTeamName?.default,
+    number: data.sweaterNumber,
+    position: data.position,
+    birthDate: data.birthDate,
+    birthCity: data.birthCity?.default,
+    birthCountry: data.birthCountry,
+    height: data.heightInCentimeters,
+    weight: data.weightInKilograms,
+    shoots: data.shootsCatches,
+  };
 
+  if (isGoalie(data)) {
     return {
       output: {
-        standings,
-        asOf: data.standingsDateTimeUtc,
-        count: standings.length,
+        type: 'goalie' as const,
+        player,
+        currentSeason: goalieLine(stats, currentSeasonTotal(data)),
+        career: goalieLine(career, careerTotal(data)),
+        headshot: data.headshot,
+        cache: cacheStatus(playerLandingEndpoint(playerId)),
       }
     };
-  },
-});
+  }
+
+  return {
+    output: {
+      type: 'skater' as const,
+      player,
+      currentSeason: {
+        gamesPlayed: stats.gamesPlayed,
+        goals: stats.goals,
+        assists: stats.assists,
+        points: stats.points,
+        plusMinus: stats.plusMinus,
+        pim: stats.pim,
+        powerPlayGoals: stats.powerPlayGoals,
+        gameWinningGoals: stats.gameWinningGoals,
+        shots: stats.shots,
+        shootingPctg: stats.shootingPctg,
+      },
+      career: {
+        gamesPlayed: career.gamesPlayed,
+        goals: career.goals,
+        assists: career.assists,
+        points: career.points,
+      },
+      headshot: data.headshot,
+      cache: cacheStatus(playerLandingEndpoint(playerId)),
+    }
+  };
+}, (ctx) => ctx.input.playerId !== undefined
+  ? `Player ${ctx.input.playerId} not found`
+  : `No rostered player matches "${ctx.input.name}"`);
 
-// === PAID ENDPOINT 2 ($0.002): Player Stats ===
 addEntrypoint({
   key: 'player',
-  description: 'Get detailed player stats by NHL player ID',
-  input: z.object({
-    playerId: z.number().describe('NHL player ID (e.g., 8478402 for McDavid)'),
-  }),
+  description: 'Get detailed player stats by NHL player ID or name, with goalie-specific stats for goalies',
+  input: PlayerInput,
+  output: withErrorSchema(formatted(z.union([PlayerOutput, PlayerAmbiguousOutput]))),
   price: { amount: 2000 },
-  handler: async (ctx) => {
-    const data = await fetchNHL(`/player/${ctx.input.playerId}/landing`);
-    
-    const stats = data.featuredStats?.regularSeason?.subSeason || {};
-    const career = data.featuredStats?.regularSeason?.career || {};
-
-    return {
-      output: {
-        player: {
-          id: data.playerId,
-          name: `${data.firstName.default} ${data.lastName.default}`,
-          team: data.currentTeamAbbrev,
-          teamName: data.fullTeamName?.default,
-          number: data.sweaterNumber,
-          position: data.position,
-          birthDate: data.birthDate,
-          birthCity: data.birthCity?.default,
-          birthCountry: data.birthCountry,
-          height: data.heightInCentimeters,
-          weight: data.weightInKilograms,
-          shoots: data.shootsCatches,
-        },
-        currentSeason: {
-          gamesPlayed: stats.gamesPlayed,
-          goals: stats.goals,
-          assists: stats.assists,
-          points: stats.points,
-          plusMinus: stats.plusMinus,
-          pim: stats.pim,
-          powerPlayGoals: stats.powerPlayGoals,
-          gameWinningGoals: stats.gameWinningGoals,
-          shots: stats.shots,
-          shootingPctg: stats.shootingPctg,
-        },
-        career: {
-          gamesPlayed: career.gamesPlayed,
-          goals: career.goals,
-          assists: career.assists,
-          points: career.points,
-        },
-        headshot: data.headshot,
-      }
-    };
-  },
+  handler: withFormat(playerHandler),
 });
 
 // === PAID ENDPOINT 3 ($0.002): Leaders ===
+const LeadersInput = z.object({
+  category: z.enum(['goals', 'assists', 'points', 'plusMinus', 'gaa', 'savePctg']).optional().default('points'),
+  team: z.string().optional().describe('Rank one team\'s players only (name or abbreviation)'),
+  limit: z.number().min(1).max(25).optional().default(10),
+  season: SeasonInput.optional(),
+  gameType: GameTypeInput,
+  format: FormatInput,
+});
+
+// One team's leaders come from its club stats, which rank every player on the roster
+async function teamLeaders(input: z.output<typeof LeadersInput>, team: string) {
+  const endpoint = await clubStatsSeasonEndpoint(team, input);
+  const stats = await fetchNHL(endpoint, ClubStatsSchema);
+  const seasonAbbrev = abbrevInSeason(team, input.season);
+  const leaders = clubLeaders(stats, input.category).slice(0, input.limit).map((r, idx) => ({
+    rank: idx + 1,
+    name: playerName(r.player),
+    team: seasonAbbrev,
+    position: r.position,
+    value: r.value,
+  }));
+  return { endpoint, leaders };
+}
+
+async function leagueLeaders(input: z.output<typeof LeadersInput>) {
+  const isGoalie = ['gaa', 'savePctg'].includes(input.category);
+  const endpoint = await leadersEndpoint(isGoalie ? 'goalie' : 'skater', input);
+  const data = await fetchNHL(endpoint, LeadersSchema);
+
+  const categoryData: Leader[] = data[input.category] || [];
+  const leaders = categoryData.slice(0, input.limit).map((p, idx) => ({
+    rank: idx + 1,
+    name: playerName(p),
+    team: p.teamAbbrev,
+    position: p.position,
+    value: p.value,
+  }));
+  return { endpoint, leaders };
+}
+
+const leadersHandler = withErrorOutput(async (ctx: { input: z.output<typeof LeadersInput> }) => {
+  const team = ctx.input.team ? resolveTeam(ctx.input.team) : null;
+  const { endpoint, leaders } = team ? await teamLeaders(ctx.input, team) : await leagueLeaders(ctx.input);
+
+  return {
+    output: {
+      category: ctx.input.category,
+      team,
+      season: ctx.input.season ?? null,
+      gameType: ctx.input.gameType,
+      leaders,
+      count: leaders.length,
+      fetchedAt: new Date().toISOString(),
+      cache: cacheStatus(endpoint),
+    }
+  };
+});
+
 addEntrypoint({
   key: 'leaders',
-  description: 'NHL stats leaders - goals, assists, points, and more',
-  input: z.object({
-    category: z.enum(['goals', 'assists', 'points', 'plusMinus', 'gaa', 'savePctg']).optional().default('points'),
-    limit: z.number().min(1).max(25).optional().default(10),
-  }),
+  description: 'NHL stats leaders - goals, assists, points, and more, league-wide or for one team, for any season or playoffs',
+  input: LeadersInput,
+  output: withErrorSchema(formatted(LeadersOutput)),
   price: { amount: 2000 },
-  handler: async (ctx) => {
-    const isGoalie = ['gaa', 'savePctg'].includes(ctx.input.category);
-    const endpoint = isGoalie ? '/goalie-stats-leaders/current' : '/skater-stats-leaders/current';
-    const data = await fetchNHL(endpoint);
-
-    const categoryData = data[ctx.input.category] || [];
-    const leaders = categoryData.slice(0, ctx.input.limit).map((p: any, idx: number) => ({
-      rank: idx + 1,
-      name: `${p.firstName.default} ${p.lastName.default}`,
-      team: p.teamAbbrev,
-      position: p.position,
-      value: p.value,
-    }));
-
-    return {
-      output: {
-        category: ctx.input.category,
-        leaders,
-        count: leaders.length,
-        fetchedAt: new Date().toISOString(),
-      }
-    };
-  },
+  handler: withFormat(leadersHandler),
 });
 
 // === PAID ENDPOINT 4 ($0.003): Team Details ===
-addEntrypoint({
-  key: 'team',
-  description: 'Team details with roster and recent performance',
-  input: z.object({
-    team: z.string().describe('Team name or abbreviation (e.g., "Bruins", "BOS", "Boston")'),
-  }),
-  price: { amount: 3000 },
-  handler: async (ctx) => {
-    const teamAbbrev = resolveTeam(ctx.input.team);
-    
-    const [roster, standings, schedule] = await Promise.all([
-      fetchNHL(`/roster/${teamAbbrev}/current`),
-      fetchNHL('/standings/now'),
-      fetchNHL(`/club-schedule-season/${teamAbbrev}/now`).catch(() => ({ games: [] })),
-    ]);
+const TeamInput = z.object({
+  team: z.string().describe('Team name or abbreviation (e.g., "Bruins", "BOS", "Boston")'),
+  season: SeasonInput.optional(),
+  date: DateInput.optional().describe('Standing and recent games as of a date'),
+  gameType: GameTypeInput,
+  format: FormatInput,
+});
 
-    const teamStanding = standings.standings.find((t: any) => 
-      t.teamAbbrev.default === teamAbbrev
-    );
+const teamHandler = withErrorOutput(async (ctx: { input: z.output<typeof TeamInput> }) => {
+  const teamAbbrev = resolveTeam(ctx.input.team);
+  // A past date reads the roster and schedule of its own season
+  const when = await pointInTime(ctx.input);
+  // Past seasons are filed under the abbreviation the franchise had then
+  const seasonAbbrev = abbrevInSeason(teamAbbrev, when.season);
+  const rosterEndpoint = `/roster/${seasonAbbrev}/${seasonSegment(when.season, 'current')}`;
+  const scheduleEndpoint = teamScheduleEndpoint(teamAbbrev, when.season);
+  const standingsPath = await standingsEndpoint(when);
 
-    const formatPlayer = (p: any) => ({
-      id: p.id,
-      name: `${p.firstName.default} ${p.lastName.default}`,
-      number: p.sweaterNumber,
-      position: p.positionCode,
-      birthCountry: p.birthCountry,
-    });
+  const [roster, standings, games] = await Promise.all([
+    // No roster means the franchise did not play that season
+    fetchNHL(rosterEndpoint, RosterSchema).catch((error) => {
+      if (!(error instanceof NotFoundError)) throw error;
+      const season = when.season ? ` in ${when.season}` : '';
+      throw new NotFoundError(rosterEndpoint, `Team "${ctx.input.team}" not found${season}`);
+    }),
+    fetchNHL(standingsPath, StandingsSchema).catch((error) => {
+      if (!(error instanceof NotFoundError)) throw error;
+      throw new NotFoundError(standingsPath, `No standings found for ${ctx.input.date ?? standingsPath}`);
+    }),
+    fetchTeamGames(teamAbbrev, when).catch((): TeamGame[] => []),
+  ]);
 
-    const recentGames = schedule.games?.slice(-5).map((g: any) => ({
-      date: g.gameDate,
-      opponent: g.homeTeam?.abbrev === teamAbbrev ? g.awayTeam?.abbrev : g.homeTeam?.abbrev,
-      home: g.homeTeam?.abbrev === teamAbbrev,
-      result: g.gameOutcome?.lastPeriodType,
-    })) || [];
+  const teamStanding = standings.standings.find((t) =>
+    t.teamAbbrev.default === seasonAbbrev
+  );
 
-    return {
-      output: {
-        team: {
-          abbrev: teamAbbrev,
-          name: teamStanding?.teamName?.default,
-          conference: teamStanding?.conferenceName,
-          division: teamStanding?.divisionName,
-        },
-        standing: teamStanding ? {
-          leagueRank: teamStanding.leagueSequence,
-          conferenceRank: teamStanding.conferenceSequence,
-          divisionRank: teamStanding.divisionSequence,
-          points: teamStanding.points,
-          record: `${teamStanding.wins}-${teamStanding.losses}-${teamStanding.otLosses}`,
-          goalDiff: teamStanding.goalDifferential,
-          streak: `${teamStanding.streakCode}${teamStanding.streakCount}`,
-        } : null,
-        roster: {
-          forwards: roster.forwards?.map(formatPlayer) || [],
-          defensemen: roster.defensemen?.map(formatPlayer) || [],
-          goalies: roster.goalies?.map(formatPlayer) || [],
-        },
-        recentGames,
-      }
-    };
-  },
+  const formatPlayer = (p: RosterPlayer) => ({
+    id: p.id,
+    name: playerName(p),
+    number: p.sweaterNumber,
+    position: p.positionCode,
+    birthCountry: p.birthCountry,
+  });
+
+  // Most recently completed games, newest last
+  const recentGames = games
+    .filter((g) => g.result && (!ctx.input.date || g.date <= ctx.input.date))
+    .slice(-5)
+    .map((g) => ({
+      gameId: g.gameId,
+      date: g.date,
+      opponent: g.opponent,
+      home: g.home,
+      result: g.result!,
+      score: `${g.teamScore}-${g.opponentScore}`,
+      decidedIn: g.decidedIn,
+    }));
+
+  return {
+    output: {
+      team: {
+        abbrev: teamAbbrev,
+        name: teamStanding?.teamName.default,
+        conference: teamStanding?.conferenceName,
+        division: teamStanding?.divisionName,
+      },
+      standing: teamStanding ? {
+        leagueRank: teamStanding.leagueSequence,
+        conferenceRank: teamStanding.conferenceSequence,
+        divisionRank: teamStanding.divisionSequence,
+        points: teamStanding.points,
+        record: `${teamStanding.wins}-${teamStanding.losses}-${teamStanding.otLosses}`,
+        goalDiff: teamStanding.goalDifferential,
+        streak: formatStreak(teamStanding),
+        change: ctx.input.season ? null : rankChange(teamStanding, previousStandings(ctx.input.date ?? today())),
+      } : null,
+      roster: {
+        forwards: roster.forwards.map(formatPlayer),
+        defensemen: roster.defensemen.map(formatPlayer),
+        goalies: roster.goalies.map(formatPlayer),
+      },
+      season: when.season ?? null,
+      date: ctx.input.date ?? null,
+      gameType: ctx.input.gameType,
+      recentGames,
+      cache: cacheStatus(rosterEndpoint, standingsPath, scheduleEndpoint),
+    }
+  };
+});
+
+addEntrypoint({
+  key: 'team',
+  description: 'Team details with roster and recent performance, for the current or a past season',
+  input: TeamInput,
+  output: withErrorSchema(formatted(TeamOutput)),
+  price: { amount: 3000 },
+  handler: withFormat(teamHandler),
 });
 
 // === PAID ENDPOINT 5 ($0.005): Comprehensive Report ===
 addEntrypoint({
   key: 'report',
-  description: 'Full NHL report - standings, leaders, schedule, and injury updates',
+  description: 'Full NHL report - standings, leaders, schedule, and injury updates, now or for a past date or season; markdown and text formats give a ready-to-post daily digest',
   input: z.object({
     conference: z.enum(['eastern', 'western', 'all']).optional().default('all'),
+    season: SeasonInput.optional(),
+    date: DateInput.optional().describe('Standings and schedule as of a date'),
+    gameType: GameTypeInput,
+    format: FormatInput,
   }),
+  output: withErrorSchema(formatted(ReportOutput)),
   price: { amount: 5000 },
-  handler: async (ctx) => {
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    // Leaders for a past date come from that date's season
+    const when = await pointInTime(ctx.input);
+    const [standingsPath, skaterPath, goaliePath] = await Promise.all([
+      standingsEndpoint(when),
+      leadersEndpoint('skater', when),
+      leadersEndpoint('goalie', when),
+    ]);
+    const scorePath = `/score/${ctx.input.date ?? 'now'}`;
+
     const [standings, skaterLeaders, goalieLeaders, scores] = await Promise.all([
-      fetchNHL('/standings/now'),
-      fetchNHL('/skater-stats-leaders/current'),
-      fetchNHL('/goalie-stats-leaders/current'),
-      fetchNHL('/score/now').catch(() => ({ games: [] })),
+      fetchNHL(standingsPath, StandingsSchema),
+      fetchNHL(skaterPath, LeadersSchema),
+      fetchNHL(goaliePath, LeadersSchema),
+      fetchNHL(scorePath, ScoreSchema).catch(() => ({ games: [] })),
     ]);
 
     let filteredStandings = standings.standings;
     if (ctx.input.conference !== 'all') {
       const conf = ctx.input.conference === 'eastern' ? 'E' : 'W';
-      filteredStandings = filteredStandings.filter((t: any) => t.conferenceAbbrev === conf);
+      filteredStandings = filteredStandings.filter((t) => t.conferenceAbbrev === conf);
     }
 
-    const standingsSummary = filteredStandings.map((t: any) => ({
+    const standingsSummary = filteredStandings.map((t) => ({
       rank: t.leagueSequence,
       team: t.teamAbbrev.default,
       points: t.points,
       record: `${t.wins}-${t.losses}-${t.otLosses}`,
       goalDiff: t.goalDifferential,
       last10: `${t.l10Wins}-${t.l10Losses}-${t.l10OtLosses}`,
-      streak: `${t.streakCode}${t.streakCount}`,
+      streak: formatStreak(t),
     }));
 
-    const topGoals = skaterLeaders.goals?.slice(0, 5).map((p: any) => ({
-      name: `${p.firstName.default} ${p.lastName.default}`,
-      team: p.teamAbbrev,
-      value: p.value,
-    })) || [];
-
-    const topAssists = skaterLeaders.assists?.slice(0, 5).map((p: any) => ({
-      name: `${p.firstName.default} ${p.lastName.default}`,
+    const topFive = (category: Leader[] = []) => category.slice(0, 5).map((p) => ({
+      name: playerName(p),
       team: p.teamAbbrev,
       value: p.value,
-    })) || [];
-
-    const topPoints = skaterLeaders.points?.slice(0, 5).map((p: any) => ({
-      name: `${p.firstName.default} ${p.lastName.default}`,
-      team: p.teamAbbrev,
-      value: p.value,
-    })) || [];
+    }));
 
-    const topGoalies = goalieLeaders.savePctg?.slice(0, 5).map((p: any) => ({
-      name: `${p.firstName.default} ${p.lastName.default}`,
+    const topGoalies = (goalieLeaders.savePctg ?? []).slice(0, 5).map((p) => ({
+      name: playerName(p),
       team: p.teamAbbrev,
       savePctg: p.value,
-    })) || [];
+    }));
 
-    const todayGames = scores.games?.map((g: any) => ({
+    const todayGames = scores.games.map((g) => ({
       gameId: g.id,
-      home: g.homeTeam?.abbrev,
-      away: g.awayTeam?.abbrev,
+      home: g.homeTeam.abbrev,
+      away: g.awayTeam.abbrev,
       state: g.gameState,
-      homeScore: g.homeTeam?.score,
-      awayScore: g.awayTeam?.score,
+      homeScore: g.homeTeam.score,
+      awayScore: g.awayTeam.score,
       startTime: g.startTimeUTC,
       venue: g.venue?.default,
-    })) || [];
+    }));
 
     return {
       output: {
         standings: standingsSummary,
         leaders: {
-          goals: topGoals,
-          assists: topAssists,
-          points: topPoints,
+          goals: topFive(skaterLeaders.goals),
+          assists: topFive(skaterLeaders.assists),
+          points: topFive(skaterLeaders.points),
           goalies: topGoalies,
         },
         todaySchedule: todayGames,
@@ -428,13 +602,607 @@ addEntrypoint({
           gamesCount: todayGames.length,
           asOf: standings.standingsDateTimeUtc,
         },
+        season: when.season ?? null,
+        date: ctx.input.date ?? null,
+        gameType: ctx.input.gameType,
         generatedAt: new Date().toISOString(),
+        cache: cacheStatus(standingsPath, skaterPath, goaliePath, scorePath),
+      }
+    };
+  }), { markdown: reportMarkdown, text: reportText }),
+});
+
+// === PAID ENDPOINT 6 ($0.001): Player Search ===
+addEntrypoint({
+  key: 'player-search',
+  description: 'Find NHL players by name - partial names, accents and team hints (e.g., "Hughes NJD") return ranked candidates with IDs',
+  input: z.object({
+    query: z.string().min(2).describe('Player name or fragment, optionally with a team (e.g., "Stutzle", "Hughes NJD")'),
+    team: z.string().optional().describe('Restrict results to one team (name or abbreviation)'),
+    limit: z.number().min(1).max(25).optional().default(10),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(PlayerSearchOutput)),
+  price: { amount: 1000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const result = await searchPlayers(ctx.input.query, { team: ctx.input.team, limit: ctx.input.limit });
+    return {
+      output: {
+        ...result,
+        bestMatch: pickUnambiguous(result.candidates),
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINT 7 ($0.003): Game Detail ===
+addEntrypoint({
+  key: 'game',
+  description: 'Live or final game detail - boxscore, period scoring, goals with assists, penalties and shots',
+  input: z.object({
+    gameId: z.number().describe('NHL game ID, as returned in report.todaySchedule (e.g., 2024020500)'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(GameOutput)),
+  price: { amount: 3000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    return { output: await getGameDetail(ctx.input.gameId) };
+  }, (ctx) => `Game ${ctx.input.gameId} not found`)),
+});
+
+// === PAID ENDPOINT 8 ($0.01): Live Score Subscription ===
+addEntrypoint({
+  key: 'live-scores',
+  description: 'Subscribe to live score events (goals, period changes, finals) for one game or today\'s slate, streamed over SSE',
+  input: z.object({
+    gameId: z.number().optional().describe('Stream a single game; omit for every game on today\'s slate'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(LiveScoresOutput)),
+  price: { amount: 10000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const scores = await fetchNHL('/score/now', ScoreSchema);
+    const gameId = ctx.input.gameId ?? null;
+    const games = scores.games.filter((g) => gameId === null || g.id === gameId);
+    if (gameId !== null && games.length === 0) throw new NotFoundError('/score/now');
+
+    const subscription = createSubscription(gameId);
+    return {
+      output: {
+        subscriptionId: subscription.id,
+        streamUrl: `/live/${subscription.id}`,
+        scope: { gameId },
+        events: ['snapshot', 'start', 'goal', 'period', 'final', 'heartbeat'] as const,
+        expiresAt: new Date(subscription.expiresAt).toISOString(),
+        games: games.map(summarizeGame),
+      }
+    };
+  }, (ctx) => `Game ${ctx.input.gameId} is not on today's slate`)),
+});
+
+// === PAID ENDPOINT 9 ($0.004): Player Comparison ===
+addEntrypoint({
+  key: 'compare-players',
+  description: 'Compare 2-5 players side by side - season and career stats, per-game and per-60 rates, with category leaders flagged',
+  input: z.object({
+    playerIds: z.array(z.number()).min(2).max(5).describe('NHL player IDs (e.g., [8478402, 8477934])'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(ComparePlayersOutput)),
+  price: { amount: 4000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const comparison = await comparePlayers(ctx.input.playerIds);
+    return {
+      output: {
+        ...comparison,
+        cache: cacheStatus(...comparison.players.map((p) => playerLandingEndpoint(p.id))),
       }
     };
+  })),
+});
+
+// === PAID ENDPOINT 10 ($0.002): Schedule ===
+addEntrypoint({
+  key: 'schedule',
+  description: 'Team schedules with results, upcoming games, rest days, back-to-backs and home/away splits, or the league-wide slate for a day or date range',
+  input: z.object({
+    team: z.string().optional().describe('Team name or abbreviation; omit for league-wide games'),
+    date: DateInput.optional().describe('A single day (league-wide defaults to today)'),
+    from: DateInput.optional().describe('Start of a date range'),
+    to: DateInput.optional().describe('End of a date range'),
+    season: SeasonInput.optional(),
+    gameType: GameTypeInput,
+    format: FormatInput,
+  })
+    .refine((i) => !i.from || !i.to || i.from <= i.to, { message: '"from" must not be after "to"' })
+    .refine((i) => i.team || !i.from || !i.to || daysBetween(i.from, i.to) < MAX_LEAGUE_RANGE_DAYS, {
+      message: `League-wide date ranges span at most ${MAX_LEAGUE_RANGE_DAYS} days`,
+    }),
+  output: withErrorSchema(formatted(ScheduleOutput)),
+  price: { amount: 2000 },
+  handler: withFormat(withErrorOutput(async (ctx): Promise<{ output: z.input<typeof ScheduleOutput> }> => {
+    const from = ctx.input.date ?? ctx.input.from;
+    const to = ctx.input.date ?? ctx.input.to;
+
+    if (ctx.input.team) {
+      const teamAbbrev = resolveTeam(ctx.input.team);
+      const schedule = await teamSchedule(teamAbbrev, { ...ctx.input, from, to });
+      return {
+        output: {
+          scope: 'team' as const,
+          from: from ?? null,
+          to: to ?? null,
+          ...schedule,
+          cache: cacheStatus(teamScheduleEndpoint(teamAbbrev, ctx.input.season)),
+        }
+      };
+    }
+
+    const start = from ?? today();
+    const end = to ?? start;
+    const { days, endpoints } = await leagueSchedule(start, end);
+    return {
+      output: {
+        scope: 'league' as const,
+        from: start,
+        to: end,
+        days,
+        gamesCount: days.reduce((sum, d) => sum + d.games.length, 0),
+        cache: cacheStatus(...endpoints),
+      }
+    };
+  }, (ctx) => ctx.input.team ? `Team "${ctx.input.team}" not found` : undefined)),
+});
+
+// === PAID ENDPOINT 11 ($0.003): Playoff Picture ===
+addEntrypoint({
+  key: 'playoff-picture',
+  description: 'Playoff picture - division and wildcard seeding with NHL tiebreakers, magic numbers, games back, clinched/eliminated flags and points pace',
+  input: z.object({
+    conference: z.enum(['eastern', 'western', 'all']).optional().default('all'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(PlayoffPictureOutput)),
+  price: { amount: 3000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const data = await fetchNHL('/standings/now', StandingsSchema);
+    const conferences = await playoffPicture(data.standings);
+    const wanted = ctx.input.conference === 'all' ? null : ctx.input.conference;
+
+    return {
+      output: {
+        conferences: conferences.filter((c) => !wanted || c.conference.toLowerCase() === wanted),
+        asOf: data.standingsDateTimeUtc,
+        cache: cacheStatus('/standings/now'),
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINT 12 ($0.005): Season Projections ===
+addEntrypoint({
+  key: 'projections',
+  description: 'Monte Carlo season projections - playoff, division title and Presidents\' Trophy odds plus projected points, from simulating the remaining schedule',
+  input: z.object({
+    conference: z.enum(['eastern', 'western', 'all']).optional().default('all'),
+    iterations: z.number().int().min(100).max(20000).optional().default(DEFAULT_ITERATIONS)
+      .describe('Number of simulated seasons'),
+    seed: z.number().int().min(0).max(2 ** 32 - 1).optional()
+      .describe('Random seed; the same seed and standings give the same projections'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(ProjectionsOutput)),
+  price: { amount: 5000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const data = await fetchNHL('/standings/now', StandingsSchema);
+    const { endpoints, ...projection } = await projectSeason(data.standings, {
+      iterations: ctx.input.iterations,
+      seed: ctx.input.seed,
+    });
+    const wanted = ctx.input.conference === 'all' ? null : ctx.input.conference;
+
+    return {
+      output: {
+        ...projection,
+        teams: projection.teams.filter((t) => !wanted || t.conference.toLowerCase() === wanted),
+        asOf: data.standingsDateTimeUtc,
+        cache: cacheStatus('/standings/now', ...endpoints),
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINT 13 ($0.004): Matchup Preview ===
+addEntrypoint({
+  key: 'matchup',
+  description: 'Pre-game matchup preview - season series, records, streaks, last 10, special teams, goalies, top scorers, rest days and a model win probability',
+  input: z.object({
+    teams: z.array(z.string()).length(2).optional()
+      .describe('Two team names or abbreviations; previews their next meeting'),
+    gameId: z.number().int().positive().optional().describe('NHL game ID to preview instead'),
+    format: FormatInput,
+  })
+    .refine((i) => i.teams || i.gameId, { message: 'Provide either two teams or a gameId' }),
+  output: withErrorSchema(formatted(MatchupOutput)),
+  price: { amount: 4000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const [teamA, teamB] = ctx.input.gameId
+      ? await gameTeams(ctx.input.gameId).then((g) => [g.home, g.away], (error) => {
+        if (error instanceof NotFoundError) throw new NotFoundError(error.endpoint, `Game ${ctx.input.gameId} not found`);
+        throw error;
+      })
+      : ctx.input.teams!.map(resolveTeam);
+    const { endpoints, ...preview } = await matchupPreview(teamA, teamB, ctx.input.gameId);
+    const boxscore = ctx.input.gameId ? [`/gamecenter/${ctx.input.gameId}/boxscore`] : [];
+
+    return {
+      output: {
+        ...preview,
+        cache: cacheStatus(...boxscore, ...endpoints),
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINT 14 ($0.003): Goalies ===
+addEntrypoint({
+  key: 'goalies',
+  description: 'League or team goalies - record, save percentage, GAA, workload and share of starts, recent starts and projected starters for tonight\'s games',
+  input: z.object({
+    team: z.string().optional().describe('Team name or abbreviation; omit for every team'),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(GoaliesOutput)),
+  price: { amount: 3000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const team = ctx.input.team ? resolveTeam(ctx.input.team) : undefined;
+    const { endpoints, ...goalies } = await listGoalies(team);
+
+    return {
+      output: {
+        ...goalies,
+        cache: cacheStatus(...endpoints),
+      }
+    };
+  }, (ctx) => ctx.input.team ? `Team "${ctx.input.team}" not found` : undefined)),
+});
+
+// === PAID ENDPOINT 15 ($0.003): Player Game Log ===
+addEntrypoint({
+  key: 'player-game-log',
+  description: 'Per-game player lines for a season with rolling last 5/10/20 form and point, goal and win streaks',
+  input: z.object({
+    playerId: z.number().describe('NHL player ID (e.g., 8478402 for McDavid)'),
+    season: SeasonInput.optional(),
+    gameType: GameTypeInput,
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(PlayerGameLogOutput)),
+  price: { amount: 3000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const { endpoints, ...log } = await playerGameLog(ctx.input.playerId, ctx.input);
+
+    return {
+      output: {
+        ...log,
+        season: ctx.input.season ?? null,
+        gameType: ctx.input.gameType,
+        cache: cacheStatus(playerLandingEndpoint(ctx.input.playerId), ...endpoints),
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINT 16 ($0.002): Team Game Log ===
+addEntrypoint({
+  key: 'team-game-log',
+  description: 'Per-game team results for a season with rolling last 5/10/20 goals for/against and win and point streaks',
+  input: z.object({
+    team: z.string().describe('Team name or abbreviation (e.g., "Bruins", "BOS", "Boston")'),
+    season: SeasonInput.optional(),
+    gameType: GameTypeInput,
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(TeamGameLogOutput)),
+  price: { amount: 2000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const teamAbbrev = resolveTeam(ctx.input.team);
+    const { endpoints, ...log } = await teamGameLog(teamAbbrev, ctx.input);
+
+    return {
+      output: {
+        ...log,
+        season: ctx.input.season ?? null,
+        gameType: ctx.input.gameType,
+        cache: cacheStatus(...endpoints),
+      }
+    };
+  }, (ctx) => `Team "${ctx.input.team}" not found`)),
+});
+
+// === PAID ENDPOINT 17 ($0.005): Fantasy ===
+addEntrypoint({
+  key: 'fantasy',
+  description: 'Fantasy hockey scoring with configurable points or categories rules - ranked players, projections for tonight\'s slate and start/sit suggestions from schedule density',
+  input: z.object({
+    scoring: ScoringInput.optional().default(ScoringInput.parse({}))
+      .describe('League rules: format plus per-stat weights for skaters and goalies'),
+    team: z.string().optional().describe('Limit the player pool to one team'),
+    playerIds: z.array(z.number()).min(1).max(50).optional().describe('Limit the pool to these players, e.g. a fantasy roster'),
+    position: z.enum(['all', 'skaters', 'goalies']).optional().default('all'),
+    limit: z.number().min(1).max(100).optional().default(25),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(FantasyOutput)),
+  price: { amount: 5000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const team = ctx.input.team ? resolveTeam(ctx.input.team) : undefined;
+    const { endpoints, ...fantasy } = await fantasyRankings(ctx.input.scoring, { ...ctx.input, team });
+
+    return {
+      output: {
+        ...fantasy,
+        cache: cacheStatus(...endpoints),
+      }
+    };
+  }, (ctx) => ctx.input.team ? `Team "${ctx.input.team}" not found` : undefined)),
+});
+
+// === FREE ENDPOINT: Teams ===
+addEntrypoint({
+  key: 'teams',
+  description: 'Franchise registry - names, abbreviations, conference and division, colors, venues, aliases and relocation history, with fuzzy team lookup',
+  input: z.object({
+    team: z.string().optional().describe('Team name, alias or near miss to look up; omit for every franchise'),
+    conference: z.enum(['Eastern', 'Western']).optional(),
+    division: z.enum(['Atlantic', 'Metropolitan', 'Central', 'Pacific']).optional(),
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(TeamsOutput)),
+  price: { amount: 0 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const abbrev = ctx.input.team ? resolveTeam(ctx.input.team) : undefined;
+    const teams = FRANCHISES.filter((f) =>
+      (!abbrev || f.abbrev === abbrev)
+      && (!ctx.input.conference || f.conference === ctx.input.conference)
+      && (!ctx.input.division || f.division === ctx.input.division)
+    );
+
+    return {
+      output: {
+        count: teams.length,
+        teams,
+      }
+    };
+  })),
+});
+
+// === PAID ENDPOINTS 18 ($0.001-$0.003): Ask ===
+// Each route is its own entrypoint, billed at the price of the entrypoint it runs;
+// POST /entrypoints/ask/invoke picks the route (see routeAsk)
+type AskData = z.input<typeof AskOutput>['data'];
+
+const ASK_ROUTES: Record<AskIntent['entrypoint'], { price: number; example: string; run: (input: object) => Promise<{ output: AskData | ErrorOutput }> }> = {
+  standings: {
+    price: priceOf('standings'),
+    example: '"Who leads the Western Conference?"',
+    run: (input) => standingsHandler({ input: StandingsInput.parse(input) }),
+  },
+  leaders: {
+    price: priceOf('leaders'),
+    example: '"Who has the most points on the Oilers?"',
+    run: (input) => leadersHandler({ input: LeadersInput.parse(input) }),
+  },
+  team: {
+    price: priceOf('team'),
+    example: '"How are the Bruins doing?"',
+    run: (input) => teamHandler({ input: TeamInput.parse(input) }),
+  },
+  player: {
+    price: priceOf('player'),
+    example: '"How is Connor McDavid doing?"',
+    run: (input) => playerHandler({ input: PlayerInput.parse(input) }),
   },
+};
+
+const ASK_UNANSWERABLE = 'Could not tell what the question asks for; name a team, a player or a stat such as goals or save percentage';
+
+const AskInput = z.object({
+  question: z.string().min(1).max(300).describe('Question about NHL standings, leaders, a team or a player'),
+  format: FormatInput,
+});
+
+// The question is parsed once, here, and names are checked against the rosters, so
+// one this route cannot answer is refused before it is charged; one that belongs
+// to another route is refused so it cannot be answered at this route's price
+const askRouteInput = (route: AskIntent['entrypoint']) => AskInput.transform(async (input, ctx) => {
+  // Rosters that cannot be read leave the route to report the upstream failure
+  const parsed = await resolveQuestion(input.question).catch(() => parseQuestion(input.question));
+  if (parsed?.intent.entrypoint === route) return { ...input, ...parsed };
+  ctx.addIssue({
+    code: 'custom',
+    message: parsed ? `This question is answered by ask-${parsed.intent.entrypoint}, or ask to have it routed` : ASK_UNANSWERABLE,
+  });
+  return z.NEVER;
 });
 
+for (const [route, { price, example, run }] of Object.entries(ASK_ROUTES) as [AskIntent['entrypoint'], typeof ASK_ROUTES[AskIntent['entrypoint']]][]) {
+  addEntrypoint({
+    key: `ask-${route}`,
+    description: `Ask in plain English (${example}) - answered by the ${route} entrypoint, with its data and a short answer; ask routes any question here or to its sibling routes`,
+    input: askRouteInput(route),
+    output: withErrorSchema(formatted(AskOutput)),
+    price: { amount: price },
+    handler: withFormat(withErrorOutput(async (ctx): Promise<{ output: z.input<typeof AskOutput> | ErrorOutput }> => {
+      const { question, slots, intent } = ctx.input;
+      const { output } = await run(intent.input);
+      // Routed errors (unknown team, missing player) come back as they are
+      if ('error' in output) return { output };
+
+      return {
+        output: {
+          question,
+          answer: answerQuestion(intent, output),
+          routedTo: { entrypoint: intent.entrypoint, input: intent.input, price: toUsd(price) },
+          slots,
+          data: output,
+        }
+      };
+    }), { text: (output) => output.answer }),
+  });
+}
+
+catalogRouter({
+  key: 'ask',
+  description: 'Ask in plain English about standings, leaders, a team or a player - routed to the matching ask-<route> entrypoint and billed at its price',
+  input: AskInput,
+  output: withErrorSchema(formatted(AskOutput)),
+  routesTo: Object.keys(ASK_ROUTES).map((route) => `ask-${route}`),
+});
+
+/**
+ * POST /entrypoints/ask/invoke: parse the question, turn away one no route
+ * can answer before anything is charged, and forward the rest to its
+ * `ask-<route>` entrypoint, which quotes and settles that route's price.
+ */
+async function routeAsk(c: Context) {
+  const body = z.object({ input: AskInput }).safeParse(await c.req.json().catch(() => null));
+  if (!body.success) {
+    const message = body.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+    return c.json({ error: { code: 'invalid_input', message, retryable: false } }, 400);
+  }
+  const parsed = await resolveQuestion(body.data.input.question);
+  if (!parsed) return c.json({ error: { code: 'invalid_input', message: ASK_UNANSWERABLE, retryable: false } }, 400);
+
+  const headers = new Headers(c.req.raw.headers);
+  headers.delete('Content-Length');
+  const target = new URL(`/entrypoints/ask-${parsed.intent.entrypoint}/invoke`, c.req.url);
+  return server.fetch(forwardedRequest(c, target, { method: 'POST', headers, body: JSON.stringify(body.data) }), c.env);
+}
+
+// === PAID ENDPOINT 19 ($0.05): Webhook Alerts ===
+addEntrypoint({
+  key: 'webhooks',
+  description: 'Register a webhook for goal, final-score, player milestone and playoff-position alerts on a team, player or game for 7 days; payloads are HMAC-signed and retried with backoff',
+  input: z.object({
+    url: WebhookUrlInput,
+    team: z.string().optional().describe('Follow a team: its goals, finals, milestones and playoff position'),
+    playerId: z.number().optional().describe('Follow a player: goals they score or assist on, milestones, and their team\'s finals and playoff position'),
+    gameId: z.number().optional().describe('Follow a single game: its goals, milestones and final score'),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional().default([...WEBHOOK_EVENTS]),
+    secret: z.string().min(16).max(256).optional().describe('Signing secret; one is generated when omitted'),
+    format: FormatInput,
+  }).refine((i) => [i.team, i.playerId, i.gameId].filter((t) => t !== undefined).length === 1, {
+    message: 'Provide exactly one of team, playerId or gameId',
+  }),
+  output: withErrorSchema(formatted(WebhookOutput)),
+  price: { amount: 50000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const scope = await resolveScope(ctx.input);
+    const subscription = await createWebhook({ ...ctx.input, scope });
+
+    return {
+      output: {
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        scope: subscription.scope,
+        events: subscription.events,
+        secret: subscription.secret,
+        signature: {
+          algorithm: 'HMAC-SHA256' as const,
+          header: SIGNATURE_HEADER,
+          timestampHeader: TIMESTAMP_HEADER,
+          signedPayload: '<timestamp>.<raw request body>',
+        },
+        statusUrl: `/webhooks/${subscription.id}`,
+        expiresAt: new Date(subscription.expiresAt).toISOString(),
+      }
+    };
+  }, (ctx) => ctx.input.playerId !== undefined
+    ? `Player ${ctx.input.playerId} not found`
+    : `Game ${ctx.input.gameId} not found`)),
+});
+
+// === PAID ENDPOINT 20 ($0.002): History ===
+const HISTORY_DAYS = 30;
+
+addEntrypoint({
+  key: 'history',
+  description: 'Daily time series from stored snapshots - a team\'s points, record or ranks, or a player\'s leaderboard value and rank, over a date range',
+  input: z.object({
+    team: z.string().optional().describe('Team name or abbreviation, for standings metrics'),
+    playerId: z.number().optional().describe('NHL player ID, for leaderboard metrics'),
+    metric: z.enum([...new Set([...Object.keys(TEAM_METRICS) as TeamMetric[], ...PLAYER_METRICS])])
+      .describe(`Team: ${Object.keys(TEAM_METRICS).join(', ')}. Player: ${PLAYER_METRICS.join(', ')}`),
+    from: DateInput.optional().describe(`First day (default ${HISTORY_DAYS} days ago)`),
+    to: DateInput.optional().describe('Last day (default today)'),
+    format: FormatInput,
+  }).refine((i) => (i.team === undefined) !== (i.playerId === undefined), {
+    message: 'Provide exactly one of team or playerId',
+  }).refine((i) => i.team !== undefined ? i.metric in TEAM_METRICS : PLAYER_METRICS.includes(i.metric as PlayerMetric), {
+    message: 'Metric does not apply: teams take standings metrics, players take leaderboard categories',
+  }).refine((i) => !i.from || !i.to || i.from <= i.to, { message: 'from must be on or before to' }),
+  output: withErrorSchema(formatted(HistoryOutput)),
+  price: { amount: 2000 },
+  handler: withFormat(withErrorOutput(async (ctx) => {
+    const to = ctx.input.to ?? today();
+    const from = ctx.input.from ?? addDays(to, -HISTORY_DAYS);
+
+    let subject;
+    let series;
+    if (ctx.input.team !== undefined) {
+      const team = resolveTeam(ctx.input.team);
+      subject = { type: 'team' as const, id: team, name: getFranchise(team)?.name ?? null, team };
+      series = teamSeries(team, ctx.input.metric as TeamMetric, from, to);
+    } else {
+      const player = playerSeries(ctx.input.playerId!, ctx.input.metric as PlayerMetric, from, to);
+      subject = { type: 'player' as const, id: String(ctx.input.playerId), name: player.name, team: player.team };
+      series = player.series;
+    }
+
+    const [first, last] = [series[0], series.at(-1)];
+    return {
+      output: {
+        subject,
+        metric: ctx.input.metric,
+        from,
+        to,
+        series,
+        change: first && last ? { from: first.value, to: last.value, delta: Math.round((last.value - first.value) * 1000) / 1000 } : null,
+        count: series.length,
+      }
+    };
+  })),
+});
+
+// === FREE ENDPOINT: Identity Status ===
+addEntrypoint({
+  key: 'identity-status',
+  description: 'Checks the advertised ERC-8004 identity against the registry - agent token, token URI, owner and x402 receiver - and reports any mismatch',
+  input: z.object({
+    format: FormatInput,
+  }),
+  output: withErrorSchema(formatted(IdentityStatusOutput)),
+  price: { amount: 0 },
+  handler: withFormat(withErrorOutput(async () => {
+    return {
+      output: await identityStatus(),
+    };
+  })),
+});
+
+startSnapshotter();
+startIdentityCheck();
+startWebhooks();
+
+// Metering and caller limits run in front of every catalogued entrypoint route, the ask router included
+const server = new Hono();
+server.use('/entrypoints/:key/*', meterUsage);
+server.post('/entrypoints/ask/invoke', routeAsk);
+server.get('/admin/usage', handleUsageReport);
+server.route('/', app);
+
 const port = Number(process.env.PORT ?? 3000);
 console.log(`🏒 NHL Stats Agent running on port ${port}`);
 
-export default { port, fetch: app.fetch };
+export default { port, fetch: server.fetch };
@@ -0,0 +1,211 @@
+/**
+ * Live score streaming. One shared poller diffs successive /score/now
+ * snapshots into goal / period / final events, and paid subscriptions
+ * receive those events over SSE until they expire.
+ */
+
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { fetchNHL } from './nhl-api';
+import { periodLabel } from './game';
+import { ScoreSchema, type ScoreGame } from './schemas';
+
+const POLL_INTERVAL_MS = Number(process.env.LIVE_POLL_INTERVAL_MS ?? 15_000);
+const SUBSCRIPTION_TTL_MS = 6 * 60 * 60 * 1000;
+const HEARTBEAT_MS = 25_000;
+
+const FINAL_STATES = new Set(['FINAL', 'OFF']);
+const LIVE_STATES = new Set(['LIVE', 'CRIT']);
+
+export type LiveEventType = 'start' | 'goal' | 'period' | 'final';
+
+export interface LiveEvent {
+  type: LiveEventType;
+  gameId: number;
+  home: string;
+  away: string;
+  homeScore?: number;
+  awayScore?: number;
+  period: string | null;
+  state: string;
+  /** Scoring team, on goal events */
+  team?: string;
+  at: string;
+}
+
+export function summarizeGame(game: ScoreGame) {
+  return {
+    gameId: game.id,
+    home: game.homeTeam.abbrev,
+    away: game.awayTeam.abbrev,
+    homeScore: game.homeTeam.score,
+    awayScore: game.awayTeam.score,
+    period: game.periodDescriptor ? periodLabel(game.periodDescriptor) : null,
+    state: game.gameState,
+  };
+}
+
+function toEvent(type: LiveEventType, game: ScoreGame, team?: string): LiveEvent {
+  return {
+    type,
+    ...summarizeGame(game),
+    ...(team ? { team } : {}),
+    at: new Date().toISOString(),
+  };
+}
+
+/** Events implied by moving from one /score/now snapshot to the next */
+export function diffSnapshots(previous: Map<number, ScoreGame>, games: ScoreGame[]): LiveEvent[] {
+  const events: LiveEvent[] = [];
+  for (const game of games) {
+    const before = previous.get(game.id);
+    if (!before) continue;
+
+    if (!LIVE_STATES.has(before.gameState) && !FINAL_STATES.has(before.gameState) && LIVE_STATES.has(game.gameState)) {
+      events.push(toEvent('start', game));
+    }
+
+    const homeGoals = (game.homeTeam.score ?? 0) - (before.homeTeam.score ?? 0);
+    const awayGoals = (game.awayTeam.score ?? 0) - (before.awayTeam.score ?? 0);
+    // Several goals between polls still produce one event per goal
+    for (let i = 0; i < homeGoals; i++) events.push(toEvent('goal', game, game.homeTeam.abbrev));
+    for (let i = 0; i < awayGoals; i++) events.push(toEvent('goal', game, game.awayTeam.abbrev));
+
+    const periodBefore = before.periodDescriptor?.number;
+    const periodNow = game.periodDescriptor?.number;
+    if (periodNow !== undefined && periodBefore !== undefined && periodNow > periodBefore) {
+      events.push(toEvent('period', game));
+    }
+
+    if (!FINAL_STATES.has(before.gameState) && FINAL_STATES.has(game.gameState)) {
+      events.push(toEvent('final', game));
+    }
+  }
+  return events;
+}
+
+type Listener = (event: LiveEvent) => void;
+
+/**
+ * Polls /score/now only while someone is listening. Every subscriber shares
+ * the same poll, so upstream load is independent of the number of streams.
+ */
+export class ScorePoller {
+  private listeners = new Set<Listener>();
+  private snapshot = new Map<number, ScoreGame>();
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    private load: () => Promise<ScoreGame[]>,
+    private intervalMs = POLL_INTERVAL_MS,
+  ) {}
+
+  get games() {
+    return [...this.snapshot.values()];
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => this.poll(), this.intervalMs);
+      this.poll();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0 && this.timer) {
+        clearInterval(this.timer);
+        this.timer = undefined;
+      }
+    };
+  }
+
+  async poll() {
+    try {
+      const games = await this.load();
+      const events = this.snapshot.size > 0 ? diffSnapshots(this.snapshot, games) : [];
+      this.snapshot = new Map(games.map((g) => [g.id, g]));
+      for (const event of events) {
+        for (const listener of this.listeners) listener(event);
+      }
+    } catch (error: any) {
+      // Keep the last snapshot; the next tick will try again
+      console.warn('⚠️  Live score poll failed:', error?.message ?? error);
+    }
+  }
+}
+
+export const scorePoller = new ScorePoller(async () => (await fetchNHL('/score/now', ScoreSchema)).games);
+
+// === Subscriptions: paid once via the live-scores entrypoint ===
+
+export interface LiveSubscription {
+  id: string;
+  /** A single game, or null for the whole day's slate */
+  gameId: number | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const subscriptions = new Map<string, LiveSubscription>();
+
+function pruneSubscriptions(now = Date.now()) {
+  for (const [id, sub] of subscriptions) {
+    if (sub.expiresAt <= now) subscriptions.delete(id);
+  }
+}
+
+export function createSubscription(gameId: number | null): LiveSubscription {
+  pruneSubscriptions();
+  const now = Date.now();
+  const subscription = {
+    id: crypto.randomUUID(),
+    gameId,
+    createdAt: now,
+    expiresAt: now + SUBSCRIPTION_TTL_MS,
+  };
+  subscriptions.set(subscription.id, subscription);
+  return subscription;
+}
+
+const inScope = (sub: LiveSubscription, gameId: number) => sub.gameId === null || sub.gameId === gameId;
+
+/** GET /live/:subscriptionId - SSE stream of live events for a subscription */
+export function handleLiveStream(c: Context) {
+  const subscription = subscriptions.get(c.req.param('subscriptionId') ?? '');
+  if (!subscription || subscription.expiresAt <= Date.now()) {
+    return c.json({ error: { code: 'not_found', message: 'Unknown or expired subscription' } }, 404);
+  }
+
+  return streamSSE(c, async (stream) => {
+    let closed = false;
+    let finish!: () => void;
+    const done = new Promise<void>((resolve) => { finish = resolve; });
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      clearInterval(heartbeat);
+      clearTimeout(expiry);
+      finish();
+    };
+
+    const unsubscribe = scorePoller.subscribe((event) => {
+      if (!inScope(subscription, event.gameId)) return;
+      stream.writeSSE({ event: event.type, data: JSON.stringify(event) }).catch(close);
+      // A single-game stream has nothing more to say after the final horn
+      if (event.type === 'final' && subscription.gameId !== null) close();
+    });
+    const heartbeat = setInterval(() => {
+      stream.writeSSE({ event: 'heartbeat', data: JSON.stringify({ at: new Date().toISOString() }) }).catch(close);
+    }, HEARTBEAT_MS);
+    const expiry = setTimeout(close, subscription.expiresAt - Date.now());
+    stream.onAbort(close);
+
+    const { games } = await fetchNHL('/score/now', ScoreSchema).catch(() => ({ games: scorePoller.games }));
+    const current = games.filter((g) => inScope(subscription, g.id)).map(summarizeGame);
+    await stream.writeSSE({ event: 'snapshot', data: JSON.stringify({ games: current }) });
+
+    await done;
+  });
+}
@@ -0,0 +1,176 @@
+/**
+ * Pre-game matchup preview: season series, standings form, special-teams
+ * scoring and PP/PK percentages, goalies, top scorers, rest and a model win
+ * probability for two teams, either for a given game or their next meeting.
+ */
+
+import { fetchNHL } from './nhl-api';
+import { InvalidInputError, NotFoundError } from './errors';
+import { BoxscoreSchema, StandingsSchema, type ClubStats, type StandingsTeam } from './schemas';
+import { clubStatsEndpoint, fetchClubStats, fetchSpecialTeams, teamSummaryEndpoint } from './club-stats';
+import { currentSeason } from './seasons';
+import { fetchTeamGames, isFinal, teamScheduleEndpoint, type GameResult, type TeamGame } from './schedule';
+import { homeWinProbability, teamStrength } from './projections';
+
+const TOP_SCORERS = 3;
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+const pctg = (value: number | null | undefined) => (typeof value === 'number' ? round(value, 3) : null);
+
+const fullName = (p: { firstName: { default: string }; lastName: { default: string } }) =>
+  `${p.firstName.default} ${p.lastName.default}`;
+
+/** Home and away teams for a game id */
+export async function gameTeams(gameId: number) {
+  const box = await fetchNHL(`/gamecenter/${gameId}/boxscore`, BoxscoreSchema);
+  return { home: box.homeTeam.abbrev, away: box.awayTeam.abbrev };
+}
+
+function standingLine(t: StandingsTeam) {
+  return {
+    record: `${t.wins}-${t.losses}-${t.otLosses}`,
+    points: t.points,
+    pointPctg: round(t.pointPctg, 3),
+    goalsForPerGame: t.gamesPlayed ? round(t.goalFor / t.gamesPlayed, 2) : null,
+    goalsAgainstPerGame: t.gamesPlayed ? round(t.goalAgainst / t.gamesPlayed, 2) : null,
+    streak: t.streakCode ? `${t.streakCode}${t.streakCount ?? ''}` : null,
+    last10: `${t.l10Wins}-${t.l10Losses}-${t.l10OtLosses}`,
+    divisionRank: t.divisionSequence,
+    leagueRank: t.leagueSequence,
+  };
+}
+
+type SpecialTeamsRates = { powerPlayPctg: number | null; penaltyKillPctg: number | null };
+
+function clubLine(stats: ClubStats, rates: SpecialTeamsRates | undefined) {
+  const topScorers = [...stats.skaters]
+    .sort((a, b) => b.points - a.points || b.goals - a.goals)
+    .slice(0, TOP_SCORERS)
+    .map((p) => ({
+      id: p.playerId,
+      name: fullName(p),
+      position: p.positionCode,
+      gamesPlayed: p.gamesPlayed,
+      goals: p.goals,
+      assists: p.assists,
+      points: p.points,
+    }));
+  const goalies = [...stats.goalies]
+    .sort((a, b) => (b.gamesStarted ?? b.gamesPlayed) - (a.gamesStarted ?? a.gamesPlayed))
+    .map((g) => ({
+      id: g.playerId,
+      name: fullName(g),
+      gamesPlayed: g.gamesPlayed,
+      record: `${g.wins ?? 0}-${g.losses ?? 0}-${g.overtimeLosses ?? 0}`,
+      savePctg: g.savePercentage !== undefined ? round(g.savePercentage, 3) : null,
+      goalsAgainstAvg: g.goalsAgainstAverage !== undefined ? round(g.goalsAgainstAverage, 2) : null,
+      shutouts: g.shutouts ?? 0,
+    }));
+  return {
+    specialTeams: {
+      powerPlayGoals: stats.skaters.reduce((sum, p) => sum + (p.powerPlayGoals ?? 0), 0),
+      shorthandedGoals: stats.skaters.reduce((sum, p) => sum + (p.shorthandedGoals ?? 0), 0),
+      powerPlayPctg: pctg(rates?.powerPlayPctg),
+      penaltyKillPctg: pctg(rates?.penaltyKillPctg),
+    },
+    goalies,
+    topScorers,
+  };
+}
+
+// The same game's result from the opponent's side
+function flip(result: GameResult, decidedIn: string | null): GameResult {
+  if (result !== 'W') return 'W';
+  return decidedIn === 'OT' || decidedIn === 'SO' ? 'OTL' : 'L';
+}
+
+// W-L-OTL over a series of results
+function seriesRecord(results: GameResult[]) {
+  const count = (r: GameResult) => results.filter((x) => x === r).length;
+  return `${count('W')}-${count('L')}-${count('OTL')}`;
+}
+
+// The game being previewed: the one asked for, else the next scheduled meeting
+function pickGame(games: TeamGame[], opponent: string, gameId?: number) {
+  if (gameId) return games.find((g) => g.gameId === gameId);
+  return games.find((g) => g.opponent === opponent && !isFinal(g.state));
+}
+
+export async function matchupPreview(teamA: string, teamB: string, gameId?: number) {
+  if (teamA === teamB) throw new InvalidInputError('franchise-registry', `A matchup needs two different teams, got ${teamA} twice`);
+  const season = await currentSeason();
+  const [standings, gamesA, gamesB, statsA, statsB, specialTeams] = await Promise.all([
+    fetchNHL('/standings/now', StandingsSchema),
+    fetchTeamGames(teamA),
+    fetchTeamGames(teamB),
+    fetchClubStats(teamA),
+    fetchClubStats(teamB),
+    // The percentages come from a second API; the preview stands without them
+    fetchSpecialTeams(season).catch(() => new Map<string, SpecialTeamsRates>()),
+  ]);
+  const rowA = standings.standings.find((t) => t.teamAbbrev.default === teamA);
+  const rowB = standings.standings.find((t) => t.teamAbbrev.default === teamB);
+  if (!rowA) throw new NotFoundError('/standings/now', `Team "${teamA}" not found`);
+  if (!rowB) throw new NotFoundError('/standings/now', `Team "${teamB}" not found`);
+
+  const series = gamesA.filter((g) => g.opponent === teamB);
+  const played = series.filter((g) => g.result);
+  const gameA = pickGame(gamesA, teamB, gameId);
+  const gameB = gameA && gamesB.find((g) => g.gameId === gameA.gameId);
+
+  // Without a scheduled game to take home ice from, average both venues
+  const strengthA = teamStrength(rowA);
+  const strengthB = teamStrength(rowB);
+  const winAtHome = homeWinProbability(strengthA, strengthB);
+  const winAway = 1 - homeWinProbability(strengthB, strengthA);
+  const winA = !gameA ? (winAtHome + winAway) / 2 : gameA.home ? winAtHome : winAway;
+
+  const side = (team: string, row: StandingsTeam, stats: ClubStats, game: TeamGame | undefined, winProbability: number) => ({
+    team,
+    name: row.teamName.default,
+    home: game ? game.home : null,
+    standing: standingLine(row),
+    ...clubLine(stats, specialTeams.get(team)),
+    restDays: game?.restDays ?? null,
+    backToBack: game?.backToBack ?? false,
+    winProbability: round(winProbability, 3),
+  });
+
+  return {
+    game: gameA ? {
+      gameId: gameA.gameId,
+      date: gameA.date,
+      startTime: gameA.startTime,
+      venue: gameA.venue,
+      state: gameA.state,
+    } : null,
+    teams: [
+      side(teamA, rowA, statsA, gameA, winA),
+      side(teamB, rowB, statsB, gameB, 1 - winA),
+    ],
+    seasonSeries: {
+      record: {
+        [teamA]: seriesRecord(played.map((g) => g.result!)),
+        [teamB]: seriesRecord(played.map((g) => flip(g.result!, g.decidedIn))),
+      },
+      games: series.map((g) => ({
+        gameId: g.gameId,
+        date: g.date,
+        home: g.home ? teamA : teamB,
+        state: g.state,
+        score: g.result ? `${teamA} ${g.teamScore}-${g.opponentScore} ${teamB}` : null,
+        winner: g.result ? (g.result === 'W' ? teamA : teamB) : null,
+        decidedIn: g.decidedIn,
+      })),
+    },
+    endpoints: [
+      '/standings/now',
+      teamScheduleEndpoint(teamA),
+      teamScheduleEndpoint(teamB),
+      clubStatsEndpoint(teamA),
+      clubStatsEndpoint(teamB),
+      teamSummaryEndpoint(season),
+    ],
+  };
+}
@@ -0,0 +1,200 @@
+import type { z } from 'zod';
+import { TtlCache, type CachePolicy } from './cache';
+import { CircuitBreaker } from './circuit-breaker';
+import { MalformedPayloadError, NotFoundError, SchemaDriftError, UpstreamUnavailableError } from './errors';
+import { FIXTURE_MODE, readFixture, recordFixture } from './fixtures';
+
+// Overridable so a local stub of the API can stand in for tests and demos (or see NHL_FIXTURES)
+export const NHL_API = process.env.NHL_API_URL ?? 'https://api-web.nhle.com/v1';
+// Team-level rates (power play, penalty kill) are only on the stats REST API, under /stats/rest
+export const NHL_STATS_API = process.env.NHL_STATS_API_URL ?? 'https://api.nhle.com';
+const USER_AGENT = 'Mozilla/5.0 (compatible; NHLStatsAgent/1.0)';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Upstream client tuning, overridable per deployment
+const TIMEOUT_MS = Number(process.env.NHL_TIMEOUT_MS ?? 8 * SECOND);
+const MAX_RETRIES = Number(process.env.NHL_MAX_RETRIES ?? 2);
+const RETRY_BASE_MS = Number(process.env.NHL_RETRY_BASE_MS ?? 250);
+const MAX_RETRY_DELAY_MS = 5 * SECOND;
+
+// Per-endpoint cache policies, first match wins
+const CACHE_POLICIES: Array<{ pattern: RegExp; policy: CachePolicy }> = [
+  // Past seasons and dates barely change, so cache them for hours
+  { pattern: /^\/standings-season$/, policy: { ttlMs: 24 * 60 * MINUTE, staleMs: 24 * 60 * MINUTE } },
+  { pattern: /^\/standings\/\d{4}-\d{2}-\d{2}$/, policy: { ttlMs: 6 * 60 * MINUTE, staleMs: 24 * 60 * MINUTE } },
+  { pattern: /-stats-leaders\/\d{8}\//, policy: { ttlMs: 60 * MINUTE, staleMs: 6 * 60 * MINUTE } },
+  { pattern: /^\/(roster|club-schedule-season)\/\w+\/\d{8}$/, policy: { ttlMs: 60 * MINUTE, staleMs: 6 * 60 * MINUTE } },
+  { pattern: /^\/club-stats\/\w+\/\d{8}\//, policy: { ttlMs: 60 * MINUTE, staleMs: 6 * 60 * MINUTE } },
+  { pattern: /^\/player\/\d+\/game-log\/\d{8}\//, policy: { ttlMs: 60 * MINUTE, staleMs: 6 * 60 * MINUTE } },
+  { pattern: /^\/score\//, policy: { ttlMs: 15 * SECOND, staleMs: 15 * SECOND } },
+  { pattern: /^\/standings\//, policy: { ttlMs: 5 * MINUTE, staleMs: 10 * MINUTE } },
+  { pattern: /-stats-leaders\//, policy: { ttlMs: 10 * MINUTE, staleMs: 20 * MINUTE } },
+  { pattern: /^\/roster\//, policy: { ttlMs: 60 * MINUTE, staleMs: 6 * 60 * MINUTE } },
+  { pattern: /^\/club-schedule-season\//, policy: { ttlMs: 10 * MINUTE, staleMs: 30 * MINUTE } },
+  { pattern: /^\/club-stats\//, policy: { ttlMs: 10 * MINUTE, staleMs: 30 * MINUTE } },
+  { pattern: /^\/schedule\//, policy: { ttlMs: 10 * MINUTE, staleMs: 30 * MINUTE } },
+  { pattern: /^\/player\//, policy: { ttlMs: 10 * MINUTE, staleMs: 30 * MINUTE } },
+  { pattern: /^\/gamecenter\//, policy: { ttlMs: 15 * SECOND, staleMs: 15 * SECOND } },
+  { pattern: /^\/stats\/rest\//, policy: { ttlMs: 10 * MINUTE, staleMs: 30 * MINUTE } },
+];
+const DEFAULT_POLICY: CachePolicy = { ttlMs: MINUTE, staleMs: MINUTE };
+
+// Raw payloads are cached by endpoint; callers may read one endpoint with different schemas
+const cache = new TtlCache<unknown>();
+// Each schema's result for a cached payload, so a payload is validated once per schema
+const parsed = new WeakMap<object, Map<z.ZodType, { data: unknown } | { error: SchemaDriftError }>>();
+const breaker = new CircuitBreaker({
+  failureThreshold: Number(process.env.NHL_BREAKER_THRESHOLD ?? 5),
+  resetMs: Number(process.env.NHL_BREAKER_RESET_MS ?? 30 * SECOND),
+});
+
+function policyFor(endpoint: string): CachePolicy {
+  return CACHE_POLICIES.find((p) => p.pattern.test(endpoint))?.policy ?? DEFAULT_POLICY;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
+// Exponential backoff with jitter, honouring Retry-After when upstream sends one
+function retryDelay(attempt: number, retryAfter: string | null) {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds)) return Math.min(seconds * SECOND, MAX_RETRY_DELAY_MS);
+  const backoff = RETRY_BASE_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * RETRY_BASE_MS, MAX_RETRY_DELAY_MS);
+}
+
+const upstreamUrl = (endpoint: string) =>
+  endpoint.startsWith('/stats/rest/') ? `${NHL_STATS_API}${endpoint}` : `${NHL_API}${endpoint}`;
+
+async function attemptNHL(endpoint: string): Promise<{ data?: unknown; retryable?: UpstreamUnavailableError; retryAfter?: string | null }> {
+  let response: Response;
+  try {
+    response = await fetch(upstreamUrl(endpoint), {
+      headers: { 'User-Agent': USER_AGENT },
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+  } catch (error: any) {
+    const message = error?.name === 'TimeoutError'
+      ? `NHL API timed out after ${TIMEOUT_MS}ms`
+      : `NHL API unreachable: ${error?.message ?? error}`;
+    return { retryable: new UpstreamUnavailableError(endpoint, message) };
+  }
+
+  if (response.status === 404) throw new NotFoundError(endpoint);
+  if (isRetryableStatus(response.status)) {
+    return {
+      retryable: new UpstreamUnavailableError(endpoint, `NHL API error: ${response.status}`, response.status),
+      retryAfter: response.headers.get('retry-after'),
+    };
+  }
+  if (!response.ok) {
+    throw new UpstreamUnavailableError(endpoint, `NHL API error: ${response.status}`, response.status);
+  }
+
+  try {
+    return { data: await response.json() };
+  } catch {
+    throw new MalformedPayloadError(endpoint, 'NHL API returned invalid JSON');
+  }
+}
+
+// Offline: answer from the recorded payload instead of the network
+function replayNHL(endpoint: string) {
+  const raw = readFixture(endpoint);
+  if (raw === undefined) throw new NotFoundError(endpoint, `No recorded fixture for ${endpoint}`);
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    throw new MalformedPayloadError(endpoint, 'Recorded fixture is not valid JSON');
+  }
+}
+
+async function requestNHL(endpoint: string) {
+  if (FIXTURE_MODE === 'replay') return replayNHL(endpoint);
+  if (!breaker.allow()) {
+    throw new UpstreamUnavailableError(
+      endpoint,
+      'NHL API is currently unavailable (circuit open)',
+      undefined,
+      Math.ceil(breaker.retryAfterMs / SECOND),
+    );
+  }
+
+  let lastError: UpstreamUnavailableError | undefined;
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    let result;
+    try {
+      result = await attemptNHL(endpoint);
+    } catch (error) {
+      // Definitive answers (404, bad JSON) mean upstream is up
+      if (error instanceof UpstreamUnavailableError) breaker.recordFailure();
+      else breaker.recordSuccess();
+      throw error;
+    }
+
+    if (!result.retryable) {
+      breaker.recordSuccess();
+      if (FIXTURE_MODE === 'record') recordFixture(endpoint, result.data);
+      return result.data;
+    }
+
+    lastError = result.retryable;
+    if (attempt < MAX_RETRIES) await sleep(retryDelay(attempt, result.retryAfter ?? null));
+  }
+
+  breaker.recordFailure();
+  throw lastError!;
+}
+
+function parsePayload<S extends z.ZodType>(endpoint: string, schema: S, data: unknown): z.infer<S> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  console.warn(`⚠️  NHL API schema drift on ${endpoint}:`, issues.slice(0, 10));
+  throw new SchemaDriftError(endpoint, issues);
+}
+
+// Validate against the caller's own schema, reusing an earlier result for the same payload and schema
+function validated<S extends z.ZodType>(endpoint: string, schema: S, data: unknown): z.infer<S> {
+  if (typeof data !== 'object' || data === null) return parsePayload(endpoint, schema, data);
+  let results = parsed.get(data);
+  if (!results) parsed.set(data, (results = new Map()));
+
+  let result = results.get(schema);
+  if (!result) {
+    try {
+      result = { data: parsePayload(endpoint, schema, data) };
+    } catch (error) {
+      if (!(error instanceof SchemaDriftError)) throw error;
+      result = { error };
+    }
+    results.set(schema, result);
+  }
+  if ('error' in result) throw result.error;
+  return result.data as z.infer<S>;
+}
+
+// === HELPER: Fetch NHL API (validated, cached, concurrent callers share one request) ===
+export async function fetchNHL<S extends z.ZodType>(endpoint: string, schema: S): Promise<z.infer<S>> {
+  const { value } = await cache.get(endpoint, () => requestNHL(endpoint), policyFor(endpoint));
+  return validated(endpoint, schema, value);
+}
+
+/**
+ * Cache age of each upstream endpoint a response was built from,
+ * so callers can tell how fresh the data is.
+ */
+export function cacheStatus(...endpoints: string[]) {
+  const status: Record<string, { ageSeconds: number; stale: boolean } | null> = {};
+  for (const endpoint of endpoints) {
+    const entry = cache.peek(endpoint);
+    status[endpoint] = entry ? { ageSeconds: Math.round(entry.ageMs / 1000), stale: entry.stale } : null;
+  }
+  return status;
+}
@@ -0,0 +1,874 @@
+/**
+ * Output contracts for each entrypoint. These are declared on addEntrypoint
+ * so callers get a typed description of what every call returns.
+ */
+
+import { z } from 'zod';
+
+export const CacheStatusSchema = z.record(
+  z.string(),
+  z.object({ ageSeconds: z.number(), stale: z.boolean() }).nullable(),
+);
+
+// Echo of the point in time a historical query was answered for
+const Season = z.number().nullable();
+const IsoDate = z.string().nullable();
+const GameType = z.enum(['regular', 'playoffs']);
+
+const LeaderLine = z.object({
+  name: z.string(),
+  team: z.string(),
+  value: z.number(),
+});
+
+const GameLine = z.object({
+  home: z.string(),
+  away: z.string(),
+  state: z.string(),
+  homeScore: z.number().optional(),
+  awayScore: z.number().optional(),
+});
+
+export const OverviewOutput = z.object({
+  topTeams: z.array(z.object({
+    team: z.string(),
+    points: z.number(),
+    wins: z.number(),
+    losses: z.number(),
+    otLosses: z.number(),
+    goalDiff: z.number(),
+  })),
+  topScorers: z.array(z.object({
+    name: z.string(),
+    team: z.string(),
+    points: z.number(),
+  })),
+  todayGames: z.array(GameLine),
+  fetchedAt: z.string(),
+  dataSource: z.string(),
+  cache: CacheStatusSchema,
+});
+
+// Movement since the previous stored snapshot; positive ranks mean the team climbed
+const RankChange = z.object({
+  since: z.string(),
+  leagueRank: z.number(),
+  conferenceRank: z.number(),
+  divisionRank: z.number(),
+  points: z.number(),
+}).nullable();
+
+export const StandingsOutput = z.object({
+  standings: z.array(z.object({
+    team: z.string(),
+    teamName: z.string(),
+    conference: z.string(),
+    division: z.string(),
+    gamesPlayed: z.number(),
+    wins: z.number(),
+    losses: z.number(),
+    otLosses: z.number(),
+    points: z.number(),
+    pointPctg: z.number(),
+    goalFor: z.number(),
+    goalAgainst: z.number(),
+    goalDifferential: z.number(),
+    streak: z.string().nullable(),
+    last10: z.string(),
+    change: RankChange,
+  })),
+  asOf: z.string().optional(),
+  season: Season,
+  date: IsoDate,
+  comparedTo: IsoDate,
+  count: z.number(),
+  cache: CacheStatusSchema,
+});
+
+const PlayerBio = z.object({
+  id: z.number(),
+  name: z.string(),
+  team: z.string().optional(),
+  teamName: z.string().optional(),
+  number: z.number().optional(),
+  position: z.string(),
+  birthDate: z.string(),
+  birthCity: z.string().optional(),
+  birthCountry: z.string().optional(),
+  height: z.number().optional(),
+  weight: z.number().optional(),
+  shoots: z.string().optional(),
+});
+
+const GoalieLine = z.object({
+  gamesPlayed: z.number().optional(),
+  gamesStarted: z.number().optional(),
+  wins: z.number().optional(),
+  losses: z.number().optional(),
+  otLosses: z.number().optional(),
+  saves: z.number().optional(),
+  shotsAgainst: z.number().optional(),
+  goalsAgainst: z.number().optional(),
+  goalsAgainstAvg: z.number().optional(),
+  savePctg: z.number().optional(),
+  shutouts: z.number().optional(),
+});
+
+export const PlayerOutput = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('skater'),
+    player: PlayerBio,
+    currentSeason: z.object({
+      gamesPlayed: z.number().optional(),
+      goals: z.number().optional(),
+      assists: z.number().optional(),
+      points: z.number().optional(),
+      plusMinus: z.number().optional(),
+      pim: z.number().optional(),
+      powerPlayGoals: z.number().optional(),
+      gameWinningGoals: z.number().optional(),
+      shots: z.number().optional(),
+      shootingPctg: z.number().optional(),
+    }),
+    career: z.object({
+      gamesPlayed: z.number().optional(),
+      goals: z.number().optional(),
+      assists: z.number().optional(),
+      points: z.number().optional(),
+    }),
+    headshot: z.string().optional(),
+    cache: CacheStatusSchema,
+  }),
+  z.object({
+    type: z.literal('goalie'),
+    player: PlayerBio,
+    currentSeason: GoalieLine,
+    career: GoalieLine,
+    headshot: z.string().optional(),
+    cache: CacheStatusSchema,
+  }),
+]);
+
+export const LeadersOutput = z.object({
+  category: z.string(),
+  team: z.string().nullable(),
+  season: Season,
+  gameType: GameType,
+  leaders: z.array(z.object({
+    rank: z.number(),
+    name: z.string(),
+    team: z.string(),
+    position: z.string(),
+    value: z.number(),
+  })),
+  count: z.number(),
+  fetchedAt: z.string(),
+  cache: CacheStatusSchema,
+});
+
+const RosterLine = z.object({
+  id: z.number(),
+  name: z.string(),
+  number: z.number().optional(),
+  position: z.string(),
+  birthCountry: z.string().optional(),
+});
+
+export const TeamOutput = z.object({
+  team: z.object({
+    abbrev: z.string(),
+    name: z.string().optional(),
+    conference: z.string().optional(),
+    division: z.string().optional(),
+  }),
+  standing: z.object({
+    leagueRank: z.number(),
+    conferenceRank: z.number(),
+    divisionRank: z.number(),
+    points: z.number(),
+    record: z.string(),
+    goalDiff: z.number(),
+    streak: z.string().nullable(),
+    change: RankChange,
+  }).nullable(),
+  roster: z.object({
+    forwards: z.array(RosterLine),
+    defensemen: z.array(RosterLine),
+    goalies: z.array(RosterLine),
+  }),
+  season: Season,
+  date: IsoDate,
+  gameType: GameType,
+  recentGames: z.array(z.object({
+    gameId: z.number(),
+    date: z.string(),
+    opponent: z.string(),
+    home: z.boolean(),
+    result: z.enum(['W', 'L', 'OTL']),
+    score: z.string(),
+    decidedIn: z.string().nullable(),
+  })),
+  cache: CacheStatusSchema,
+});
+
+export const ReportOutput = z.object({
+  standings: z.array(z.object({
+    rank: z.number(),
+    team: z.string(),
+    points: z.number(),
+    record: z.string(),
+    goalDiff: z.number(),
+    last10: z.string(),
+    streak: z.string().nullable(),
+  })),
+  leaders: z.object({
+    goals: z.array(LeaderLine),
+    assists: z.array(LeaderLine),
+    points: z.array(LeaderLine),
+    goalies: z.array(z.object({
+      name: z.string(),
+      team: z.string(),
+      savePctg: z.number(),
+    })),
+  }),
+  todaySchedule: z.array(GameLine.extend({
+    gameId: z.number(),
+    startTime: z.string().optional(),
+    venue: z.string().optional(),
+  })),
+  summary: z.object({
+    teamsCount: z.number(),
+    gamesCount: z.number(),
+    asOf: z.string().optional(),
+  }),
+  season: Season,
+  date: IsoDate,
+  gameType: GameType,
+  generatedAt: z.string(),
+  cache: CacheStatusSchema,
+});
+
+const PlayerCandidate = z.object({
+  id: z.number(),
+  name: z.string(),
+  team: z.string(),
+  position: z.string(),
+  number: z.number().optional(),
+  score: z.number(),
+});
+
+// Returned by `player` when a name matches several players about equally well
+export const PlayerAmbiguousOutput = z.object({
+  ambiguous: z.literal(true),
+  query: z.string(),
+  candidates: z.array(PlayerCandidate),
+});
+
+export const PlayerSearchOutput = z.object({
+  query: z.string(),
+  teamHint: z.string().nullable(),
+  candidates: z.array(PlayerCandidate),
+  indexedPlayers: z.number(),
+  bestMatch: PlayerCandidate.nullable(),
+});
+
+const GameSide = z.object({
+  abbrev: z.string(),
+  score: z.number().optional(),
+  shots: z.number().optional(),
+});
+
+const BoxscoreSide = z.object({
+  skaters: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    number: z.number().optional(),
+    position: z.string(),
+    goals: z.number(),
+    assists: z.number(),
+    points: z.number(),
+    plusMinus: z.number(),
+    pim: z.number(),
+    shots: z.number(),
+    hits: z.number(),
+    blocks: z.number(),
+    powerPlayGoals: z.number(),
+    toi: z.string().optional(),
+  })),
+  goalies: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    number: z.number().optional(),
+    saves: z.number().optional(),
+    shotsAgainst: z.number().optional(),
+    goalsAgainst: z.number().optional(),
+    savePctg: z.number().optional(),
+    toi: z.string().optional(),
+    starter: z.boolean().optional(),
+    decision: z.string().optional(),
+  })),
+});
+
+export const GameOutput = z.object({
+  game: z.object({
+    id: z.number(),
+    date: z.string(),
+    state: z.string(),
+    startTime: z.string().optional(),
+    venue: z.string().optional(),
+    period: z.string().nullable(),
+    clock: z.object({ timeRemaining: z.string(), inIntermission: z.boolean() }).nullable(),
+    home: GameSide,
+    away: GameSide,
+  }),
+  periods: z.array(z.object({
+    period: z.number(),
+    label: z.string(),
+    homeGoals: z.number(),
+    awayGoals: z.number(),
+    homeShots: z.number(),
+    awayShots: z.number(),
+  })),
+  goals: z.array(z.object({
+    period: z.number(),
+    periodLabel: z.string(),
+    time: z.string(),
+    team: z.string(),
+    scorer: z.string(),
+    assists: z.array(z.string()),
+    homeScore: z.number().optional(),
+    awayScore: z.number().optional(),
+  })),
+  penalties: z.array(z.object({
+    period: z.number(),
+    periodLabel: z.string(),
+    time: z.string(),
+    team: z.string().optional(),
+    player: z.string().optional(),
+    infraction: z.string().optional(),
+    minutes: z.number().optional(),
+  })),
+  shotsOnGoal: z.object({ home: z.number(), away: z.number() }),
+  boxscore: z.object({ home: BoxscoreSide, away: BoxscoreSide }),
+  cache: CacheStatusSchema,
+});
+
+export const LiveScoresOutput = z.object({
+  subscriptionId: z.string(),
+  streamUrl: z.string(),
+  scope: z.object({ gameId: z.number().nullable() }),
+  events: z.array(z.enum(['snapshot', 'start', 'goal', 'period', 'final', 'heartbeat'])),
+  expiresAt: z.string(),
+  games: z.array(GameLine.extend({
+    gameId: z.number(),
+    period: z.string().nullable(),
+  })),
+});
+
+const ComparedStat = z.object({
+  stat: z.string(),
+  better: z.enum(['higher', 'lower']),
+  values: z.record(z.string(), z.number().nullable()),
+  leaders: z.array(z.number()),
+});
+
+const ComparisonGroup = z.object({
+  playerIds: z.array(z.number()),
+  currentSeason: z.array(ComparedStat),
+  career: z.array(ComparedStat),
+}).nullable();
+
+export const ComparePlayersOutput = z.object({
+  players: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    team: z.string().optional(),
+    position: z.string(),
+    type: z.enum(['skater', 'goalie']),
+  })),
+  skaters: ComparisonGroup,
+  goalies: ComparisonGroup,
+  cache: CacheStatusSchema,
+});
+
+const TeamScheduleGame = z.object({
+  gameId: z.number(),
+  date: z.string(),
+  startTime: z.string().optional(),
+  venue: z.string().optional(),
+  state: z.string().optional(),
+  home: z.boolean(),
+  opponent: z.string(),
+  teamScore: z.number().optional(),
+  opponentScore: z.number().optional(),
+  result: z.enum(['W', 'L', 'OTL']).nullable(),
+  decidedIn: z.string().nullable(),
+  restDays: z.number().nullable(),
+  backToBack: z.boolean(),
+});
+
+const SplitRecord = z.object({
+  gamesPlayed: z.number(),
+  wins: z.number(),
+  losses: z.number(),
+  otLosses: z.number(),
+  goalsFor: z.number(),
+  goalsAgainst: z.number(),
+});
+
+export const ScheduleOutput = z.discriminatedUnion('scope', [
+  z.object({
+    scope: z.literal('team'),
+    team: z.string(),
+    from: IsoDate,
+    to: IsoDate,
+    past: z.array(TeamScheduleGame),
+    upcoming: z.array(TeamScheduleGame),
+    splits: z.object({ home: SplitRecord, away: SplitRecord }),
+    backToBacks: z.number(),
+    upcomingBackToBacks: z.number(),
+    averageRestDays: z.number().nullable(),
+    cache: CacheStatusSchema,
+  }),
+  z.object({
+    scope: z.literal('league'),
+    from: z.string(),
+    to: z.string(),
+    days: z.array(z.object({
+      date: z.string(),
+      games: z.array(z.object({
+        gameId: z.number(),
+        startTime: z.string().optional(),
+        venue: z.string().optional(),
+        state: z.string().optional(),
+        home: z.string(),
+        away: z.string(),
+        homeScore: z.number().optional(),
+        awayScore: z.number().optional(),
+        decidedIn: z.string().nullable(),
+      })),
+    })),
+    gamesCount: z.number(),
+    cache: CacheStatusSchema,
+  }),
+]);
+
+const PlayoffTeamLine = z.object({
+  team: z.string(),
+  teamName: z.string(),
+  conference: z.string(),
+  division: z.string(),
+  seed: z.string().nullable(),
+  gamesPlayed: z.number(),
+  gamesRemaining: z.number(),
+  points: z.number(),
+  maxPoints: z.number(),
+  pointPctg: z.number(),
+  pointsPace: z.number(),
+  regulationWins: z.number(),
+  regulationPlusOtWins: z.number(),
+  wins: z.number(),
+  goalDiff: z.number(),
+  goalsFor: z.number(),
+  headToHeadPoints: z.number().nullable(),
+  inPlayoffPosition: z.boolean(),
+  clinched: z.boolean(),
+  eliminated: z.boolean(),
+  officialClinch: z.string().nullable(),
+  magicNumber: z.number().nullable(),
+  pointsBackOfCutoff: z.number(),
+  gamesBackOfCutoff: z.number(),
+});
+
+export const PlayoffPictureOutput = z.object({
+  conferences: z.array(z.object({
+    conference: z.string(),
+    divisions: z.array(z.object({
+      division: z.string(),
+      leaders: z.array(PlayoffTeamLine),
+    })),
+    wildcards: z.array(PlayoffTeamLine),
+    outside: z.array(PlayoffTeamLine),
+    cutoffPoints: z.number().nullable(),
+  })),
+  asOf: z.string().optional(),
+  cache: CacheStatusSchema,
+});
+
+export const ProjectionsOutput = z.object({
+  iterations: z.number(),
+  seed: z.number(),
+  remainingGames: z.number(),
+  teams: z.array(z.object({
+    team: z.string(),
+    teamName: z.string(),
+    conference: z.string(),
+    division: z.string(),
+    currentPoints: z.number(),
+    gamesRemaining: z.number(),
+    strength: z.number(),
+    playoffOdds: z.number(),
+    divisionTitleOdds: z.number(),
+    presidentsTrophyOdds: z.number(),
+    projectedPoints: z.object({
+      mean: z.number(),
+      p10: z.number(),
+      median: z.number(),
+      p90: z.number(),
+    }),
+  })),
+  asOf: z.string().optional(),
+  cache: CacheStatusSchema,
+});
+
+const MatchupSide = z.object({
+  team: z.string(),
+  name: z.string(),
+  home: z.boolean().nullable(),
+  standing: z.object({
+    record: z.string(),
+    points: z.number(),
+    pointPctg: z.number(),
+    goalsForPerGame: z.number().nullable(),
+    goalsAgainstPerGame: z.number().nullable(),
+    streak: z.string().nullable(),
+    last10: z.string(),
+    divisionRank: z.number(),
+    leagueRank: z.number(),
+  }),
+  specialTeams: z.object({
+    powerPlayGoals: z.number(),
+    shorthandedGoals: z.number(),
+    // Null when the stats API has no rate for the team yet
+    powerPlayPctg: z.number().nullable(),
+    penaltyKillPctg: z.number().nullable(),
+  }),
+  goalies: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    gamesPlayed: z.number(),
+    record: z.string(),
+    savePctg: z.number().nullable(),
+    goalsAgainstAvg: z.number().nullable(),
+    shutouts: z.number(),
+  })),
+  topScorers: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    position: z.string(),
+    gamesPlayed: z.number(),
+    goals: z.number(),
+    assists: z.number(),
+    points: z.number(),
+  })),
+  restDays: z.number().nullable(),
+  backToBack: z.boolean(),
+  winProbability: z.number(),
+});
+
+export const MatchupOutput = z.object({
+  game: z.object({
+    gameId: z.number(),
+    date: z.string(),
+    startTime: z.string().optional(),
+    venue: z.string().optional(),
+    state: z.string().optional(),
+  }).nullable(),
+  teams: z.array(MatchupSide),
+  seasonSeries: z.object({
+    record: z.record(z.string(), z.string()),
+    games: z.array(z.object({
+      gameId: z.number(),
+      date: z.string(),
+      home: z.string(),
+      state: z.string().optional(),
+      score: z.string().nullable(),
+      winner: z.string().nullable(),
+      decidedIn: z.string().nullable(),
+    })),
+  }),
+  cache: CacheStatusSchema,
+});
+
+const RecentStart = z.object({
+  gameId: z.number(),
+  date: z.string(),
+  opponent: z.string(),
+  home: z.boolean(),
+  decision: z.string().nullable(),
+  shotsAgainst: z.number().nullable(),
+  goalsAgainst: z.number().nullable(),
+  savePctg: z.number().nullable(),
+});
+
+export const GoaliesOutput = z.object({
+  scope: z.enum(['team', 'league']),
+  date: z.string(),
+  goalies: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    team: z.string(),
+    gamesPlayed: z.number(),
+    gamesStarted: z.number(),
+    startShare: z.number().nullable(),
+    record: z.string(),
+    savePctg: z.number().nullable(),
+    goalsAgainstAvg: z.number().nullable(),
+    shutouts: z.number(),
+    // League-wide, only loaded for teams playing tonight
+    recentStarts: z.array(RecentStart).nullable(),
+  })),
+  tonight: z.array(z.object({
+    team: z.string(),
+    gameId: z.number(),
+    opponent: z.string(),
+    home: z.boolean(),
+    startTime: z.string().optional(),
+    projectedStarter: z.object({
+      id: z.number(),
+      name: z.string(),
+      basis: z.enum(['starts leader', 'starter played yesterday']),
+    }).nullable(),
+  })),
+  cache: CacheStatusSchema,
+});
+
+const Streak = z.object({ current: z.number(), longest: z.number() });
+
+export const PlayerGameLogOutput = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('skater'),
+    player: z.object({ id: z.number(), name: z.string(), team: z.string().optional(), position: z.string() }),
+    season: Season,
+    gameType: GameType,
+    games: z.array(z.object({
+      gameId: z.number(),
+      date: z.string(),
+      opponent: z.string(),
+      home: z.boolean(),
+      goals: z.number(),
+      assists: z.number(),
+      points: z.number(),
+      plusMinus: z.number(),
+      powerPlayGoals: z.number(),
+      shots: z.number(),
+      pim: z.number(),
+      toi: z.string().nullable(),
+    })),
+    rolling: z.array(z.object({
+      window: z.number(),
+      games: z.number(),
+      goals: z.number(),
+      assists: z.number(),
+      points: z.number(),
+      shots: z.number(),
+      pointsPerGame: z.number().nullable(),
+      shotsPerGame: z.number().nullable(),
+      avgToi: z.number().nullable(),
+    })),
+    streaks: z.object({ points: Streak, goals: Streak, goalless: Streak, pointless: Streak }),
+    cache: CacheStatusSchema,
+  }),
+  z.object({
+    type: z.literal('goalie'),
+    player: z.object({ id: z.number(), name: z.string(), team: z.string().optional(), position: z.string() }),
+    season: Season,
+    gameType: GameType,
+    games: z.array(z.object({
+      gameId: z.number(),
+      date: z.string(),
+      opponent: z.string(),
+      home: z.boolean(),
+      started: z.boolean(),
+      decision: z.string().nullable(),
+      shotsAgainst: z.number(),
+      goalsAgainst: z.number(),
+      savePctg: z.number().nullable(),
+      toi: z.string().nullable(),
+    })),
+    rolling: z.array(z.object({
+      window: z.number(),
+      games: z.number(),
+      starts: z.number(),
+      wins: z.number(),
+      shotsAgainst: z.number(),
+      goalsAgainst: z.number(),
+      savePctg: z.number().nullable(),
+      goalsAgainstAvg: z.number().nullable(),
+    })),
+    streaks: z.object({ wins: Streak, twoOrFewerAllowed: Streak }),
+    cache: CacheStatusSchema,
+  }),
+]);
+
+export const TeamGameLogOutput = z.object({
+  team: z.string(),
+  season: Season,
+  gameType: GameType,
+  games: z.array(z.object({
+    gameId: z.number(),
+    date: z.string(),
+    opponent: z.string(),
+    home: z.boolean(),
+    result: z.enum(['W', 'L', 'OTL']),
+    decidedIn: z.string().nullable(),
+    goalsFor: z.number(),
+    goalsAgainst: z.number(),
+  })),
+  rolling: z.array(z.object({
+    window: z.number(),
+    games: z.number(),
+    wins: z.number(),
+    losses: z.number(),
+    otLosses: z.number(),
+    points: z.number(),
+    goalsFor: z.number(),
+    goalsAgainst: z.number(),
+    goalsForPerGame: z.number().nullable(),
+    goalsAgainstPerGame: z.number().nullable(),
+  })),
+  streaks: z.object({ wins: Streak, winless: Streak, points: Streak }),
+  cache: CacheStatusSchema,
+});
+
+export const FantasyOutput = z.object({
+  format: z.enum(['points', 'categories']),
+  weekOf: z.object({ from: z.string(), to: z.string() }),
+  unscoredStats: z.array(z.string()),
+  rankings: z.array(z.object({
+    rank: z.number(),
+    id: z.number(),
+    name: z.string(),
+    team: z.string(),
+    position: z.string(),
+    type: z.enum(['skater', 'goalie']),
+    gamesPlayed: z.number(),
+    score: z.number(),
+    perGame: z.number(),
+    playsTonight: z.boolean(),
+    tonightProjection: z.number(),
+    gamesThisWeek: z.number(),
+    weekProjection: z.number(),
+  })),
+  tonight: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    team: z.string(),
+    position: z.string(),
+    projection: z.number(),
+  })),
+  startSit: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    team: z.string(),
+    gamesThisWeek: z.number(),
+    weekProjection: z.number(),
+    recommendation: z.enum(['start', 'sit']),
+  })),
+  cache: CacheStatusSchema,
+});
+
+export const TeamsOutput = z.object({
+  count: z.number(),
+  teams: z.array(z.object({
+    abbrev: z.string(),
+    name: z.string(),
+    location: z.string(),
+    nickname: z.string(),
+    conference: z.string(),
+    division: z.string(),
+    colors: z.object({ primary: z.string(), secondary: z.string() }),
+    venue: z.string(),
+    firstSeason: z.number(),
+    history: z.array(z.object({
+      abbrev: z.string(),
+      name: z.string(),
+      firstSeason: z.number(),
+      lastSeason: z.number(),
+    })),
+    aliases: z.array(z.string()),
+  })),
+});
+
+export const AskOutput = z.object({
+  question: z.string(),
+  answer: z.string(),
+  routedTo: z.object({
+    entrypoint: z.enum(['standings', 'leaders', 'team', 'player']),
+    input: z.record(z.string(), z.unknown()),
+    price: z.number(),
+  }),
+  slots: z.object({
+    teams: z.array(z.string()),
+    player: z.string().nullable(),
+    category: z.string().nullable(),
+    season: z.number().nullable(),
+    date: z.string().nullable(),
+    conference: z.string().nullable(),
+    gameType: GameType,
+    limit: z.number().nullable(),
+  }),
+  data: z.union([StandingsOutput, LeadersOutput, TeamOutput, PlayerOutput, PlayerAmbiguousOutput]),
+});
+
+export const WebhookOutput = z.object({
+  subscriptionId: z.string(),
+  url: z.string(),
+  scope: z.object({
+    type: z.enum(['team', 'player', 'game']),
+    team: z.string().nullable(),
+    playerId: z.number().nullable(),
+    gameId: z.number().nullable(),
+  }),
+  events: z.array(z.enum(['goal', 'final', 'milestone', 'playoff-position'])),
+  // Only ever returned here, at registration
+  secret: z.string(),
+  signature: z.object({
+    algorithm: z.literal('HMAC-SHA256'),
+    header: z.string(),
+    timestampHeader: z.string(),
+    signedPayload: z.string(),
+  }),
+  statusUrl: z.string(),
+  expiresAt: z.string(),
+});
+
+export const HistoryOutput = z.object({
+  subject: z.object({
+    type: z.enum(['team', 'player']),
+    id: z.string(),
+    name: z.string().nullable(),
+    team: z.string().nullable(),
+  }),
+  metric: z.string(),
+  from: z.string(),
+  to: z.string(),
+  series: z.array(z.object({
+    date: z.string(),
+    value: z.number(),
+    rank: z.number().nullable(),
+  })),
+  change: z.object({
+    from: z.number(),
+    to: z.number(),
+    delta: z.number(),
+  }).nullable(),
+  count: z.number(),
+});
+
+export const IdentityStatusOutput = z.object({
+  status: z.enum(['verified', 'mismatch', 'unverified']),
+  agentId: z.string().nullable(),
+  registry: z.string(),
+  chainId: z.number(),
+  agentURI: z.string().nullable(),
+  checks: z.array(z.object({
+    name: z.enum(['registration', 'token-uri', 'owner', 'receiver', 'payments']),
+    status: z.enum(['pass', 'fail', 'skipped']),
+    expected: z.string().nullable(),
+    actual: z.string().nullable(),
+    message: z.string(),
+  })),
+  error: z.string().nullable(),
+  checkedAt: z.string(),
+});
@@ -0,0 +1,174 @@
+/**
+ * Free-text player lookup against an index built from every team's current
+ * roster. Handles partial names, accents and team hints ("Hughes NJD").
+ */
+
+import { fetchNHL } from './nhl-api';
+import { RosterSchema, type RosterPlayer } from './schemas';
+import { TEAM_ABBREVS, lookupTeam, resolveTeam } from './teams';
+
+export interface IndexedPlayer {
+  id: number;
+  name: string;
+  team: string;
+  position: string;
+  number?: number;
+  tokens: string[];
+}
+
+export interface PlayerCandidate {
+  id: number;
+  name: string;
+  team: string;
+  position: string;
+  number?: number;
+  score: number;
+}
+
+// Lowercase, strip accents and punctuation: "Stützle" -> "stutzle"
+export function normalizeName(input: string) {
+  return input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/-/g, ' ')
+    .trim();
+}
+
+function indexPlayer(p: RosterPlayer, team: string): IndexedPlayer {
+  const name = `${p.firstName.default} ${p.lastName.default}`;
+  return {
+    id: p.id,
+    name,
+    team,
+    position: p.positionCode,
+    number: p.sweaterNumber,
+    tokens: normalizeName(name).split(/\s+/),
+  };
+}
+
+/**
+ * Every rostered player in the league. Rosters come through the fetchNHL
+ * cache, so only the first search after a roster TTL expiry goes upstream.
+ * A team whose roster fails to load is left out rather than failing the search.
+ */
+export async function buildPlayerIndex(): Promise<IndexedPlayer[]> {
+  const rosters = await Promise.allSettled(
+    TEAM_ABBREVS.map(async (team) => ({ team, roster: await fetchNHL(`/roster/${team}/current`, RosterSchema) })),
+  );
+
+  const index: IndexedPlayer[] = [];
+  for (const result of rosters) {
+    if (result.status !== 'fulfilled') continue;
+    const { team, roster } = result.value;
+    for (const p of [...roster.forwards, ...roster.defensemen, ...roster.goalies]) {
+      index.push(indexPlayer(p, team));
+    }
+  }
+  if (index.length === 0) {
+    // Every roster failed: surface the upstream error instead of "no match"
+    const failure = rosters.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failure) throw failure.reason;
+  }
+  return index;
+}
+
+// How well one query token matches one name token, 0..1
+function tokenScore(query: string, token: string) {
+  if (token === query) return 1;
+  if (token.startsWith(query)) return 0.6 + 0.3 * (query.length / token.length);
+  if (query.length >= 3 && token.includes(query)) return 0.4;
+  if (query.length >= 4 && withinOneEdit(query, token)) return 0.5;
+  return 0;
+}
+
+// Single-typo tolerance ("mcdavd", "makar")
+function withinOneEdit(a: string, b: string) {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function scorePlayer(queryTokens: string[], player: IndexedPlayer) {
+  let total = 0;
+  for (const q of queryTokens) {
+    const best = Math.max(...player.tokens.map((t) => tokenScore(q, t)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  // Reward queries that cover more of the player's full name
+  const coverage = Math.min(1, queryTokens.length / player.tokens.length);
+  return Math.round((total / queryTokens.length) * (80 + 20 * coverage));
+}
+
+// Split "Hughes NJD" into name tokens and a team hint
+function parseQuery(query: string): { tokens: string[]; team?: string } {
+  const tokens = normalizeName(query).split(/\s+/).filter(Boolean);
+  for (let i = 0; i < tokens.length; i++) {
+    // Two-word aliases first ("red wings", "maple leafs")
+    for (const width of [2, 1]) {
+      const slice = tokens.slice(i, i + width);
+      if (slice.length !== width) continue;
+      const team = lookupTeam(slice.join(''));
+      const rest = [...tokens.slice(0, i), ...tokens.slice(i + width)];
+      if (team && rest.length > 0) return { tokens: rest, team };
+    }
+  }
+  return { tokens };
+}
+
+function rank(index: IndexedPlayer[], tokens: string[], team?: string): PlayerCandidate[] {
+  return index
+    .filter((p) => !team || p.team === team)
+    .map((p) => ({ id: p.id, name: p.name, team: p.team, position: p.position, number: p.number, score: scorePlayer(tokens, p) }))
+    .filter((c) => c.score > 0)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+}
+
+export async function searchPlayers(query: string, options: { team?: string; limit?: number } = {}) {
+  const index = await buildPlayerIndex();
+  const parsed = parseQuery(query);
+  let team = options.team ? resolveTeam(options.team) : parsed.team;
+
+  let candidates = rank(index, parsed.tokens, team);
+  // A "team hint" may really be part of a name (e.g. "van" in Van Riemsdyk)
+  if (candidates.length === 0 && parsed.team && !options.team) {
+    team = undefined;
+    candidates = rank(index, normalizeName(query).split(/\s+/).filter(Boolean));
+  }
+
+  return {
+    query,
+    teamHint: team ?? null,
+    candidates: candidates.slice(0, options.limit ?? 10),
+    indexedPlayers: index.length,
+  };
+}
+
+/**
+ * The single player a query clearly refers to, or null when the top
+ * candidates are too close to call.
+ */
+export function pickUnambiguous(candidates: PlayerCandidate[]): PlayerCandidate | null {
+  const [top, next] = candidates;
+  if (!top) return null;
+  if (!next || top.score - next.score >= 15) return top;
+  return null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Shared access to the player landing payload, used by `player` and every
+ * entrypoint that builds on it.
+ */
+
+import { fetchNHL } from './nhl-api';
+import { PlayerLandingSchema, type FeaturedStats, type PlayerLanding, type SeasonTotal } from './schemas';
+
+export const playerLandingEndpoint = (playerId: number) => `/player/${playerId}/landing`;
+
+export function fetchPlayerLanding(playerId: number) {
+  return fetchNHL(playerLandingEndpoint(playerId), PlayerLandingSchema);
+}
+
+export const isGoalie = (landing: PlayerLanding) => landing.position === 'G';
+
+/** The player's most recent NHL regular-season row, if any */
+export function currentSeasonTotal(landing: PlayerLanding): SeasonTotal | undefined {
+  return landing.seasonTotals.findLast((s) => s.leagueAbbrev === 'NHL' && s.gameTypeId === 2);
+}
+
+// "21:34" -> 21.57 minutes; also handles goalie season totals like "3421:12"
+export function parseToi(toi?: string) {
+  if (!toi) return undefined;
+  const [minutes, seconds] = toi.split(':').map(Number);
+  if (!Number.isFinite(minutes)) return undefined;
+  return minutes + (seconds || 0) / 60;
+}
+
+/**
+ * Goalie season line: rates from the featured stats, with starts, saves and
+ * shots against filled in from the matching season total row.
+ */
+export function goalieLine(stats: FeaturedStats, total?: SeasonTotal) {
+  const saves = total?.shotsAgainst !== undefined && total.goalsAgainst !== undefined
+    ? total.shotsAgainst - total.goalsAgainst
+    : undefined;
+  return {
+    gamesPlayed: stats.gamesPlayed,
+    gamesStarted: total?.gamesStarted,
+    wins: stats.wins,
+    losses: stats.losses,
+    otLosses: stats.otLosses,
+    saves,
+    shotsAgainst: total?.shotsAgainst,
+    goalsAgainst: total?.goalsAgainst,
+    goalsAgainstAvg: stats.goalsAgainstAvg,
+    savePctg: stats.savePctg,
+    shutouts: stats.shutouts,
+  };
+}
+
+/** Sum of every NHL regular-season row, for career goalie workload */
+export function careerTotal(landing: PlayerLanding): SeasonTotal | undefined {
+  const rows = landing.seasonTotals.filter((s) => s.leagueAbbrev === 'NHL' && s.gameTypeId === 2);
+  if (rows.length === 0) return undefined;
+  const sum = (key: 'gamesStarted' | 'shotsAgainst' | 'goalsAgainst') =>
+    rows.every((r) => r[key] !== undefined) ? rows.reduce((acc, r) => acc + r[key]!, 0) : undefined;
+  return {
+    season: rows.at(-1)!.season,
+    gameTypeId: 2,
+    leagueAbbrev: 'NHL',
+    gamesStarted: sum('gamesStarted'),
+    shotsAgainst: sum('shotsAgainst'),
+    goalsAgainst: sum('goalsAgainst'),
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Playoff picture: division top-three and wildcard seeding with NHL
+ * tiebreakers, plus clinch/elimination status and magic numbers.
+ *
+ * Clinching is conservative (ties are assumed to go against the team) and
+ * elimination is optimistic (ties go its way), so neither flag is ever
+ * raised early. The NHL's own clinch indicator is passed through alongside.
+ */
+
+import { fetchTeamGames } from './schedule';
+import type { StandingsTeam } from './schemas';
+
+export const SEASON_GAMES = 82;
+const DIVISION_SPOTS = 3;
+const WILDCARD_SPOTS = 2;
+
+export interface PlayoffTeam {
+  team: string;
+  teamName: string;
+  conference: string;
+  division: string;
+  gamesPlayed: number;
+  gamesRemaining: number;
+  points: number;
+  maxPoints: number;
+  pointPctg: number;
+  pointsPace: number;
+  regulationWins: number;
+  regulationPlusOtWins: number;
+  wins: number;
+  goalDiff: number;
+  goalsFor: number;
+  /** Points earned against the other teams in a tied group, when a tie went to head-to-head */
+  headToHeadPoints: number | null;
+}
+
+function toPlayoffTeam(t: StandingsTeam): PlayoffTeam {
+  const gamesRemaining = Math.max(0, SEASON_GAMES - t.gamesPlayed);
+  return {
+    team: t.teamAbbrev.default,
+    teamName: t.teamName.default,
+    conference: t.conferenceName,
+    division: t.divisionName,
+    gamesPlayed: t.gamesPlayed,
+    gamesRemaining,
+    points: t.points,
+    maxPoints: t.points + 2 * gamesRemaining,
+    pointPctg: t.pointPctg,
+    pointsPace: t.gamesPlayed ? Math.round((t.points / t.gamesPlayed) * SEASON_GAMES) : 0,
+    regulationWins: t.regulationWins ?? 0,
+    regulationPlusOtWins: t.regulationPlusOtWins ?? 0,
+    wins: t.wins,
+    goalDiff: t.goalDifferential,
+    goalsFor: t.goalFor,
+    headToHeadPoints: null,
+  };
+}
+
+// Tiebreakers that only need the standings row: points, fewer games played,
+// regulation wins, regulation + OT wins, total wins
+function compareRecords(a: PlayoffTeam, b: PlayoffTeam) {
+  return b.points - a.points
+    || a.gamesPlayed - b.gamesPlayed
+    || b.regulationWins - a.regulationWins
+    || b.regulationPlusOtWins - a.regulationPlusOtWins
+    || b.wins - a.wins;
+}
+
+// Points each team in a tied group earned in games against the others
+async function headToHeadPoints(group: PlayoffTeam[]) {
+  const members = new Set(group.map((t) => t.team));
+  const points = new Map<string, number>();
+  await Promise.all(group.map(async (t) => {
+    const games = await fetchTeamGames(t.team).catch(() => []);
+    const earned = games
+      .filter((g) => members.has(g.opponent) && g.result)
+      .reduce((sum, g) => sum + (g.result === 'W' ? 2 : g.result === 'OTL' ? 1 : 0), 0);
+    points.set(t.team, earned);
+  }));
+  return points;
+}
+
+/**
+ * Rank teams with the NHL tiebreak order. Teams still level after total
+ * wins go to head-to-head points, then goal differential, then goals for.
+ */
+export async function rankTeams(teams: PlayoffTeam[]): Promise<PlayoffTeam[]> {
+  const sorted = teams.map((t): PlayoffTeam => ({ ...t, headToHeadPoints: null })).sort(compareRecords);
+  const ranked: PlayoffTeam[] = [];
+  for (let i = 0; i < sorted.length;) {
+    let j = i + 1;
+    while (j < sorted.length && compareRecords(sorted[i], sorted[j]) === 0) j++;
+    const group = sorted.slice(i, j);
+    if (group.length > 1) {
+      const h2h = await headToHeadPoints(group);
+      for (const t of group) t.headToHeadPoints = h2h.get(t.team) ?? 0;
+      group.sort((a, b) => b.headToHeadPoints! - a.headToHeadPoints! || b.goalDiff - a.goalDiff || b.goalsFor - a.goalsFor);
+    }
+    ranked.push(...group);
+    i = j;
+  }
+  return ranked;
+}
+
+// Wildcard competitors guaranteed (or able) to finish ahead of a team, given
+// how many teams from each division finish ahead of it
+const wildcardAhead = (ownDivision: number, otherDivision: number) =>
+  Math.max(0, ownDivision - DIVISION_SPOTS) + Math.max(0, otherDivision - DIVISION_SPOTS);
+
+function clinchStatus(team: PlayoffTeam, conference: PlayoffTeam[]) {
+  const others = conference.filter((t) => t.team !== team.team);
+  const split = (list: PlayoffTeam[]) => ({
+    own: list.filter((t) => t.division === team.division).length,
+    other: list.filter((t) => t.division !== team.division).length,
+  });
+
+  // Teams that could still finish level with or ahead of this team
+  const canPass = split(others.filter((t) => t.maxPoints >= team.points));
+  const clinched = canPass.own < DIVISION_SPOTS || wildcardAhead(canPass.own, canPass.other) < WILDCARD_SPOTS;
+
+  // Teams already out of reach even if this team wins out
+  const outOfReach = split(others.filter((t) => t.points > team.maxPoints));
+  const eliminated = outOfReach.own >= DIVISION_SPOTS && wildcardAhead(outOfReach.own, outOfReach.other) >= WILDCARD_SPOTS;
+
+  return { clinched, eliminated };
+}
+
+export async function playoffPicture(standings: StandingsTeam[]) {
+  const official = new Map(standings.map((t) => [t.teamAbbrev.default, t.clinchIndicator ?? null]));
+  const conferences = [...new Set(standings.map((t) => t.conferenceName))].sort();
+
+  return Promise.all(conferences.map(async (conferenceName) => {
+    const conference = standings.filter((t) => t.conferenceName === conferenceName).map(toPlayoffTeam);
+    const divisionNames = [...new Set(conference.map((t) => t.division))].sort();
+
+    const divisions = await Promise.all(divisionNames.map(async (division) => ({
+      division,
+      ranked: await rankTeams(conference.filter((t) => t.division === division)),
+    })));
+    const divisionLeaders = new Set(divisions.flatMap((d) => d.ranked.slice(0, DIVISION_SPOTS).map((t) => t.team)));
+    const wildcardRace = await rankTeams(conference.filter((t) => !divisionLeaders.has(t.team)));
+
+    const cutoff = wildcardRace[WILDCARD_SPOTS - 1];
+    const firstOut = wildcardRace[WILDCARD_SPOTS];
+
+    const describe = (t: PlayoffTeam, seed: string | null) => {
+      const { clinched, eliminated } = clinchStatus(t, conference);
+      const inPosition = seed !== null;
+      const pointsBack = !inPosition && cutoff ? cutoff.points - t.points : 0;
+      return {
+        ...t,
+        seed,
+        inPlayoffPosition: inPosition,
+        clinched,
+        eliminated,
+        officialClinch: official.get(t.team) ?? null,
+        // Points gained by this team or lost by the first team out needed to clinch
+        magicNumber: inPosition && !clinched && firstOut ? Math.max(0, firstOut.maxPoints - t.points + 1) : null,
+        pointsBackOfCutoff: pointsBack,
+        gamesBackOfCutoff: pointsBack / 2,
+      };
+    };
+
+    return {
+      conference: conferenceName,
+      divisions: divisions.map((d) => ({
+        division: d.division,
+        leaders: d.ranked.slice(0, DIVISION_SPOTS).map((t, i) => describe(t, `${d.division[0]}${i + 1}`)),
+      })),
+      wildcards: wildcardRace.slice(0, WILDCARD_SPOTS).map((t, i) => describe(t, `WC${i + 1}`)),
+      outside: wildcardRace.slice(WILDCARD_SPOTS).map((t) => describe(t, null)),
+      cutoffPoints: cutoff?.points ?? null,
+    };
+  }));
+}
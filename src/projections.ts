@@ -0,0 +1,208 @@
+/**
+ * Monte Carlo season projections: plays out every remaining regular-season
+ * game many times and counts how often each team makes the playoffs, wins
+ * its division or finishes first overall.
+ *
+ * Team strength is a Pythagorean expectation from goals for/against,
+ * regressed toward league average and blended with last-10 form. Games use
+ * log5 with a home-ice edge; about a quarter go past regulation, where the
+ * loser still banks a point and the winner is closer to a coin flip.
+ *
+ * Simulation runs in chunks that yield to the event loop, so a large run
+ * does not stall other requests.
+ */
+
+import { fetchTeamGames, teamScheduleEndpoint } from './schedule';
+import type { StandingsTeam } from './schemas';
+
+const DIVISION_SPOTS = 3;
+const WILDCARD_SPOTS = 2;
+const PYTHAGOREAN_EXPONENT = 2.1;
+// Ten games of league-average scoring added to both sides of every team
+const PRIOR_GOALS = 30;
+const FORM_WEIGHT = 0.25;
+const HOME_EDGE = 0.035;
+const OVERTIME_RATE = 0.23;
+// Share of games past regulation settled in overtime rather than a shootout
+const OT_DECIDED_RATE = 0.6;
+// Share of the regulation edge that survives into overtime and the shootout
+const OVERTIME_EDGE = 0.25;
+// Runs simulated between yields to the event loop
+const CHUNK_ITERATIONS = 250;
+
+export const DEFAULT_ITERATIONS = 5000;
+
+/** mulberry32: small, fast and good enough for simulation, with a 32-bit seed */
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Expected share of points against an average team, 0-1 */
+export function teamStrength(t: StandingsTeam) {
+  const gf = (t.goalFor + PRIOR_GOALS) ** PYTHAGOREAN_EXPONENT;
+  const ga = (t.goalAgainst + PRIOR_GOALS) ** PYTHAGOREAN_EXPONENT;
+  const pythagorean = gf / (gf + ga);
+  const l10Games = t.l10Wins + t.l10Losses + t.l10OtLosses;
+  if (!l10Games) return pythagorean;
+  const form = (2 * t.l10Wins + t.l10OtLosses) / (2 * l10Games);
+  return (1 - FORM_WEIGHT) * pythagorean + FORM_WEIGHT * form;
+}
+
+// log5: chance a team of strength a beats a team of strength b
+function log5(a: number, b: number) {
+  return (a - a * b) / (a + b - 2 * a * b);
+}
+
+export function homeWinProbability(home: number, away: number) {
+  return Math.min(0.95, Math.max(0.05, log5(home, away) + HOME_EDGE));
+}
+
+interface SimTeam {
+  team: string;
+  conference: string;
+  division: string;
+  points: number;
+  regulationWins: number;
+  regulationPlusOtWins: number;
+}
+
+interface RemainingGame {
+  home: number;
+  away: number;
+  homeWin: number;
+  homeWinPastRegulation: number;
+}
+
+function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+
+/** Every remaining regular-season game, taken from each home team's schedule */
+async function remainingGames(teams: string[]) {
+  const schedules = await Promise.all(teams.map((team) => fetchTeamGames(team)));
+  const index = new Map(teams.map((team, i) => [team, i]));
+  const games: { home: number; away: number }[] = [];
+  schedules.forEach((schedule, home) => {
+    for (const g of schedule) {
+      const away = index.get(g.opponent);
+      if (g.home && g.result === null && away !== undefined) games.push({ home, away });
+    }
+  });
+  return games;
+}
+
+// Sort key for one simulated finish: points, RW, ROW, then a random draw
+function finishOrder(a: SimTeam, b: SimTeam, tiebreak: Float64Array, i: number, j: number) {
+  return b.points - a.points
+    || b.regulationWins - a.regulationWins
+    || b.regulationPlusOtWins - a.regulationPlusOtWins
+    || tiebreak[j] - tiebreak[i];
+}
+
+export async function projectSeason(standings: StandingsTeam[], opts: { iterations?: number; seed?: number } = {}) {
+  const iterations = opts.iterations ?? DEFAULT_ITERATIONS;
+  const seed = opts.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const random = seededRandom(seed);
+
+  const teams = standings.map((t) => t.teamAbbrev.default);
+  const strengths = standings.map(teamStrength);
+  const games: RemainingGame[] = (await remainingGames(teams)).map((g) => {
+    const homeWin = homeWinProbability(strengths[g.home], strengths[g.away]);
+    return { ...g, homeWin, homeWinPastRegulation: 0.5 + (homeWin - 0.5) * OVERTIME_EDGE };
+  });
+
+  const n = standings.length;
+  const playoffs = new Uint32Array(n);
+  const divisionTitles = new Uint32Array(n);
+  const firstOverall = new Uint32Array(n);
+  const finalPoints = standings.map(() => [] as number[]);
+  const tiebreak = new Float64Array(n);
+  const conferences = [...new Set(standings.map((t) => t.conferenceName))];
+  const divisions = [...new Set(standings.map((t) => t.divisionName))];
+
+  for (let run = 0; run < iterations; run++) {
+    if (run > 0 && run % CHUNK_ITERATIONS === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    const sim: SimTeam[] = standings.map((t) => ({
+      team: t.teamAbbrev.default,
+      conference: t.conferenceName,
+      division: t.divisionName,
+      points: t.points,
+      regulationWins: t.regulationWins ?? 0,
+      regulationPlusOtWins: t.regulationPlusOtWins ?? 0,
+    }));
+    for (let i = 0; i < n; i++) tiebreak[i] = random();
+
+    for (const g of games) {
+      const pastRegulation = random() < OVERTIME_RATE;
+      const homeWins = random() < (pastRegulation ? g.homeWinPastRegulation : g.homeWin);
+      const winner = sim[homeWins ? g.home : g.away];
+      const loser = sim[homeWins ? g.away : g.home];
+      winner.points += 2;
+      if (pastRegulation) {
+        loser.points += 1;
+        if (random() < OT_DECIDED_RATE) winner.regulationPlusOtWins++;
+      } else {
+        winner.regulationWins++;
+        winner.regulationPlusOtWins++;
+      }
+    }
+
+    const order = (ids: number[]) => ids.sort((i, j) => finishOrder(sim[i], sim[j], tiebreak, i, j));
+    const all = sim.map((_, i) => i);
+
+    firstOverall[order([...all])[0]]++;
+    const divisionTop = new Set<number>();
+    for (const division of divisions) {
+      const ranked = order(all.filter((i) => sim[i].division === division));
+      divisionTitles[ranked[0]]++;
+      for (const i of ranked.slice(0, DIVISION_SPOTS)) {
+        divisionTop.add(i);
+        playoffs[i]++;
+      }
+    }
+    for (const conference of conferences) {
+      const race = order(all.filter((i) => sim[i].conference === conference && !divisionTop.has(i)));
+      for (const i of race.slice(0, WILDCARD_SPOTS)) playoffs[i]++;
+    }
+    sim.forEach((t, i) => finalPoints[i].push(t.points));
+  }
+
+  const projections = standings.map((t, i) => {
+    const points = finalPoints[i].sort((a, b) => a - b);
+    return {
+      team: teams[i],
+      teamName: t.teamName.default,
+      conference: t.conferenceName,
+      division: t.divisionName,
+      currentPoints: t.points,
+      gamesRemaining: games.filter((g) => g.home === i || g.away === i).length,
+      strength: round(strengths[i], 3),
+      playoffOdds: round(playoffs[i] / iterations, 3),
+      divisionTitleOdds: round(divisionTitles[i] / iterations, 3),
+      presidentsTrophyOdds: round(firstOverall[i] / iterations, 3),
+      projectedPoints: {
+        mean: round(points.reduce((sum, p) => sum + p, 0) / iterations, 1),
+        p10: percentile(points, 0.1),
+        median: percentile(points, 0.5),
+        p90: percentile(points, 0.9),
+      },
+    };
+  });
+
+  return {
+    iterations,
+    seed,
+    remainingGames: games.length,
+    teams: projections.sort((a, b) => b.playoffOdds - a.playoffOdds || b.projectedPoints.mean - a.projectedPoints.mean),
+    endpoints: teams.map((team) => teamScheduleEndpoint(team)),
+  };
+}
@@ -1,156 +1,89 @@
 /**
  * Register NHL Stats Agent on ERC-8004 Ethereum Mainnet
- * 
- * Run once to register: bun run register
- * 
+ *
+ * Run to register: bun run register [--dry-run] [--yes] [--agent-id <id>] [--out <file>]
+ *
+ * Safe to re-run: a wallet that already owns an agent with this URI sends
+ * nothing. Pass --agent-id to point an existing agent at this URI (after a
+ * domain move) instead of registering a new one. --dry-run estimates gas
+ * without sending; --yes skips the confirmation prompt.
+ *
  * Required env vars:
  *   PRIVATE_KEY - Wallet private key for signing
+ *     (or KEYSTORE_PATH and KEYSTORE_PASSWORD for an encrypted keystore)
  *   AGENT_DOMAIN - Domain for the agent
+ *
+ * Optional env vars:
  *   RPC_URL - Ethereum mainnet RPC
- *   CHAIN_ID - 1 for Ethereum mainnet
+ *   CHAIN_ID - 1 for Ethereum mainnet, or a local chain (e.g. 31337)
+ *   REGISTRY_ADDRESS - Identity registry, for local chains
+ *   REGISTRY_FROM_BLOCK - First block to scan for the wallet's agent tokens
+ *     (default: the registry's deployment block, found on chain)
+ *   REGISTRY_LOG_CHUNK - Blocks per log request (default 10000)
+ *   AGENT_URI - Full agent URI instead of one built from AGENT_DOMAIN (e.g. a local deployment)
+ *
+ * The agent URI must already serve the metadata document (it is generated
+ * from the entrypoints, see src/catalog.ts); it is checked before sending.
  */
 
-import { createPublicClient, createWalletClient, http } from 'viem';
-import { privateKeyToAccount } from 'viem/accounts';
-import { mainnet } from 'viem/chains';
+import { formatEther } from 'viem';
+import { METADATA_PATH, agentMetadata } from './catalog';
+import { cliOptions, connectRegistry, loadAccount, runRegistrations, writeResults } from './registration';
 
-// ERC-8004 Identity Registry on Ethereum Mainnet
-const IDENTITY_REGISTRY = '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432';
+type AgentMetadata = ReturnType<typeof agentMetadata>;
 
-// Minimal ABI for register function
-const REGISTRY_ABI = [
-  {
-    name: 'register',
-    type: 'function',
-    stateMutability: 'nonpayable',
-    inputs: [{ name: 'agentURI', type: 'string' }],
-    outputs: [{ name: 'agentId', type: 'uint256' }],
-  },
-  {
-    name: 'ownerOf',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'tokenId', type: 'uint256' }],
-    outputs: [{ name: '', type: 'address' }],
-  },
-  {
-    name: 'balanceOf',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'owner', type: 'address' }],
-    outputs: [{ name: '', type: 'uint256' }],
-  },
-] as const;
+/** The metadata document the agent URI serves, or an error saying why it cannot be used */
+async function fetchServedMetadata(agentURI: string): Promise<AgentMetadata> {
+  const res = await fetch(agentURI, { headers: { Accept: 'application/json' } });
+  if (!res.ok) throw new Error(`${agentURI} answered HTTP ${res.status}; deploy the agent before registering`);
+  const metadata = await res.json() as AgentMetadata;
+  if (!Array.isArray(metadata.capabilities) || metadata.capabilities.length === 0) {
+    throw new Error(`${agentURI} lists no capabilities`);
+  }
+  return metadata;
+}
 
 async function main() {
-  console.log('🏒 Registering NHL Stats Agent on ERC-8004 Ethereum Mainnet...\n');
+  console.log('🏒 Registering NHL Stats Agent on ERC-8004...\n');
 
   const domain = process.env.AGENT_DOMAIN;
-  if (!domain) {
+  if (!domain && !process.env.AGENT_URI) {
     console.error('❌ AGENT_DOMAIN environment variable required');
     process.exit(1);
   }
 
-  const privateKey = process.env.PRIVATE_KEY as `0x${string}`;
-  if (!privateKey) {
-    console.error('❌ PRIVATE_KEY environment variable required');
-    process.exit(1);
-  }
-
-  const rpcUrl = process.env.RPC_URL || 'https://eth.llamarpc.com';
-
   try {
-    // Create clients
-    const account = privateKeyToAccount(privateKey);
-    const publicClient = createPublicClient({
-      chain: mainnet,
-      transport: http(rpcUrl),
-    });
-    const walletClient = createWalletClient({
-      account,
-      chain: mainnet,
-      transport: http(rpcUrl),
-    });
-
-    console.log('📍 Wallet address:', account.address);
-    console.log('📍 Domain:', domain);
-    console.log('📍 Registry:', IDENTITY_REGISTRY);
-    console.log('📍 Chain: Ethereum Mainnet (1)\n');
-
-    // Check ETH balance
-    const balance = await publicClient.getBalance({ address: account.address });
-    console.log('💰 ETH Balance:', Number(balance) / 1e18, 'ETH');
-    
-    if (balance === 0n) {
-      console.error('❌ No ETH for gas fees. Please fund the wallet.');
-      process.exit(1);
-    }
+    const options = cliOptions();
+    const registry = connectRegistry(await loadAccount());
 
-    // Check if already registered (has any agent tokens)
-    const tokenBalance = await publicClient.readContract({
-      address: IDENTITY_REGISTRY,
-      abi: REGISTRY_ABI,
-      functionName: 'balanceOf',
-      args: [account.address],
-    });
+    console.log('📍 Wallet address:', registry.account.address);
+    console.log('📍 Domain:', domain ?? new URL(process.env.AGENT_URI!).host);
+    console.log('📍 Registry:', registry.address);
+    console.log('📍 Chain:', registry.chain.name, `(${registry.chain.id})`);
+    if (options.dryRun) console.log('📍 Dry run: nothing will be sent');
 
-    if (tokenBalance > 0n) {
-      console.log('ℹ️  Wallet already has', tokenBalance.toString(), 'agent token(s)');
-    }
+    const balance = await registry.publicClient.getBalance({ address: registry.account.address });
+    console.log('💰 ETH Balance:', formatEther(balance), 'ETH');
 
-    // Construct agent URI
-    const agentURI = `https://${domain}/.well-known/agent-metadata.json`;
+    // Construct agent URI and check it serves the metadata document
+    const agentURI = process.env.AGENT_URI ?? `https://${domain}${METADATA_PATH}`;
     console.log('\n🔗 Agent URI:', agentURI);
 
-    // Register the agent
-    console.log('\n📝 Sending registration transaction...');
-    
-    const hash = await walletClient.writeContract({
-      address: IDENTITY_REGISTRY,
-      abi: REGISTRY_ABI,
-      functionName: 'register',
-      args: [agentURI],
-    });
-
-    console.log('✅ Transaction sent:', hash);
-    console.log('⏳ Waiting for confirmation...');
-
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    
-    console.log('\n✅ Registration confirmed!');
-    console.log('   Block:', receipt.blockNumber);
-    console.log('   Gas used:', receipt.gasUsed.toString());
-
-    // Generate metadata to host
-    const metadata = {
-      name: 'NHL Stats Agent',
-      description: 'Live NHL hockey stats, standings, and player data via x402 micropayments',
-      version: '1.0.0',
-      owner: account.address,
-      chain: 'eip155:1',
-      registeredAt: new Date().toISOString(),
-      capabilities: [
-        { name: 'overview', description: 'Free NHL overview - top teams, scorers, games', price: 0 },
-        { name: 'standings', description: 'Full NHL standings by conference/division', price: 0.001 },
-        { name: 'player', description: 'Detailed player stats by ID', price: 0.002 },
-        { name: 'leaders', description: 'NHL stats leaders', price: 0.002 },
-        { name: 'team', description: 'Team details with roster', price: 0.003 },
-        { name: 'report', description: 'Comprehensive NHL report', price: 0.005 },
-      ],
-      x402: {
-        receiverAddress: account.address,
-        network: 'base',
-        facilitator: 'https://facilitator.daydreams.systems',
-      },
-    };
-
-    console.log('\n📄 Host this metadata at:');
-    console.log(`   ${agentURI}\n`);
-    console.log(JSON.stringify(metadata, null, 2));
+    const metadata = await fetchServedMetadata(agentURI);
+    console.log('📄 Served metadata lists', metadata.capabilities.length, 'capabilities');
+    if (metadata.owner.toLowerCase() !== registry.account.address.toLowerCase()) {
+      console.warn('⚠️  Metadata owner', metadata.owner, 'is not the signing wallet');
+    }
+    console.log();
 
-    console.log('\n🎉 Agent successfully registered on ERC-8004!');
-    console.log('   View on Etherscan: https://etherscan.io/tx/' + hash);
+    const [result] = await runRegistrations(registry, [{ name: metadata.name, agentURI, agentId: options.agentId }], options);
+    writeResults(options.out, registry, options, [result]);
 
+    if (result.status === 'failed') process.exit(1);
+    if (result.status === 'confirmed') {
+      console.log('\n🎉 Agent', result.action === 'update' ? 'URI updated' : 'registered', 'on ERC-8004!');
+      if (registry.chain.id === 1) console.log('   View on Etherscan: https://etherscan.io/tx/' + result.transactionHash);
+    }
   } catch (error: any) {
     console.error('\n❌ Registration failed:', error.message || error);
     if (error.shortMessage) {
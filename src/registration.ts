@@ -0,0 +1,421 @@
+/**
+ * Shared ERC-8004 registration logic for the registration CLIs.
+ *
+ * Registration is idempotent: the wallet's agent tokens are read back from
+ * the registry first, an agent URI that is already registered is skipped,
+ * and an existing agent can have its URI updated instead of being
+ * registered a second time. Every transaction is gas-estimated and
+ * confirmed before it is sent, and each run writes a JSON results file.
+ *
+ * Keys come only from the environment: PRIVATE_KEY, or KEYSTORE_PATH and
+ * KEYSTORE_PASSWORD for an encrypted (v3) keystore file. RPC_URL, CHAIN_ID
+ * and REGISTRY_ADDRESS point the CLIs at a local chain for testing.
+ */
+
+import { scryptSync } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import {
+  concat,
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  encodeFunctionData,
+  formatEther,
+  hexToBytes,
+  http,
+  keccak256,
+  parseEventLogs,
+  toHex,
+  zeroAddress,
+  type Address,
+  type Chain,
+  type Hex,
+  type Log,
+  type PrivateKeyAccount,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { mainnet } from 'viem/chains';
+import { AGENT_IDENTITY } from './catalog';
+
+export const REGISTRY_ABI = [
+  {
+    name: 'register',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'agentURI', type: 'string' }],
+    outputs: [{ name: 'agentId', type: 'uint256' }],
+  },
+  {
+    name: 'setAgentURI',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'agentId', type: 'uint256' }, { name: 'newURI', type: 'string' }],
+    outputs: [],
+  },
+  {
+    name: 'tokenURI',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'string' }],
+  },
+  {
+    name: 'ownerOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    name: 'Transfer',
+    type: 'event',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'tokenId', type: 'uint256', indexed: true },
+    ],
+  },
+] as const;
+
+const TRANSFER_EVENT = REGISTRY_ABI[5];
+
+// Blocks per getLogs request; public RPCs reject wide log ranges
+const LOG_CHUNK_BLOCKS = BigInt(process.env.REGISTRY_LOG_CHUNK ?? 10_000);
+
+// === Key loading ===
+
+interface Keystore {
+  crypto: {
+    cipher: string;
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: { dklen: number; salt: string; n?: number; r?: number; p?: number; c?: number; prf?: string };
+    mac: string;
+  };
+}
+
+// Copied so Web Crypto gets a plain ArrayBuffer-backed view
+const bytes = (hex: string) => new Uint8Array(hexToBytes(`0x${hex}`));
+
+/** Decrypt a v3 (geth/foundry) keystore file */
+export async function decryptKeystore(json: string, password: string): Promise<Hex> {
+  const { crypto: keystore } = JSON.parse(json) as Keystore;
+  if (keystore.cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher ${keystore.cipher}`);
+  const params = keystore.kdfparams;
+  const salt = bytes(params.salt);
+  const derived = keystore.kdf === 'scrypt'
+    ? new Uint8Array(scryptSync(password, salt, params.dklen, { N: params.n!, r: params.r!, p: params.p!, maxmem: 512 * 1024 * 1024 }))
+    : new Uint8Array(await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: params.c! },
+      await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']),
+      params.dklen * 8,
+    ));
+
+  const ciphertext = bytes(keystore.ciphertext);
+  const mac = keccak256(concat([derived.subarray(16, 32), ciphertext])).slice(2);
+  if (mac !== keystore.mac.toLowerCase()) throw new Error('Wrong keystore password');
+
+  const key = await crypto.subtle.importKey('raw', derived.subarray(0, 16), 'AES-CTR', false, ['decrypt']);
+  const counter = bytes(keystore.cipherparams.iv);
+  return toHex(new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CTR', counter, length: 128 }, key, ciphertext)));
+}
+
+/** The signing account from PRIVATE_KEY, or from KEYSTORE_PATH and KEYSTORE_PASSWORD */
+export async function loadAccount(): Promise<PrivateKeyAccount> {
+  if (process.env.PRIVATE_KEY) return privateKeyToAccount(process.env.PRIVATE_KEY as Hex);
+  const keystorePath = process.env.KEYSTORE_PATH;
+  if (keystorePath) {
+    const password = process.env.KEYSTORE_PASSWORD;
+    if (password === undefined) throw new Error('KEYSTORE_PASSWORD environment variable required with KEYSTORE_PATH');
+    return privateKeyToAccount(await decryptKeystore(readFileSync(keystorePath, 'utf8'), password));
+  }
+  throw new Error('PRIVATE_KEY or KEYSTORE_PATH environment variable required');
+}
+
+// === Chain ===
+
+export interface Registry {
+  publicClient: ReturnType<typeof createPublicClient>;
+  walletClient: ReturnType<typeof createWalletClient>;
+  account: PrivateKeyAccount;
+  address: Address;
+  chain: Chain;
+  // First block to scan for the wallet's tokens; null for the registry's deployment block
+  fromBlock: bigint | null;
+}
+
+/** Ethereum mainnet, or a local chain (e.g. anvil on 31337) when CHAIN_ID says so */
+function chainFromEnv(rpcUrl: string): Chain {
+  const id = Number(process.env.CHAIN_ID ?? mainnet.id);
+  if (id === mainnet.id) return mainnet;
+  return defineChain({
+    id,
+    name: `Chain ${id}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+  });
+}
+
+export function connectRegistry(account: PrivateKeyAccount): Registry {
+  const rpcUrl = process.env.RPC_URL || 'https://eth.llamarpc.com';
+  const chain = chainFromEnv(rpcUrl);
+  return {
+    publicClient: createPublicClient({ chain, transport: http(rpcUrl) }),
+    walletClient: createWalletClient({ account, chain, transport: http(rpcUrl) }),
+    account,
+    address: (process.env.REGISTRY_ADDRESS ?? AGENT_IDENTITY.erc8004.registry) as Address,
+    chain,
+    fromBlock: process.env.REGISTRY_FROM_BLOCK ? BigInt(process.env.REGISTRY_FROM_BLOCK) : null,
+  };
+}
+
+// === Planning ===
+
+export interface OwnedAgent {
+  agentId: bigint;
+  uri: string;
+}
+
+/**
+ * The block the registry was deployed in: the first with code at its
+ * address, found by binary search. Needs an RPC that serves historical
+ * state; REGISTRY_FROM_BLOCK skips the search.
+ */
+async function deploymentBlock(registry: Registry, latest: bigint) {
+  const { publicClient, address } = registry;
+  const hasCode = async (blockNumber: bigint) => ((await publicClient.getCode({ address, blockNumber })) ?? '0x') !== '0x';
+  if (!(await hasCode(latest))) throw new Error(`No registry contract at ${address}`);
+  let low = 0n;
+  let high = latest;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if (await hasCode(mid)) high = mid;
+    else low = mid + 1n;
+  }
+  return low;
+}
+
+/** Every token transfer to the wallet, read in ranges of LOG_CHUNK_BLOCKS */
+async function transfersToWallet(registry: Registry) {
+  const { publicClient, address, account } = registry;
+  const latest = await publicClient.getBlockNumber();
+  const from = registry.fromBlock ?? await deploymentBlock(registry, latest);
+  const logs = [];
+  for (let start = from; start <= latest; start += LOG_CHUNK_BLOCKS) {
+    const end = start + LOG_CHUNK_BLOCKS - 1n < latest ? start + LOG_CHUNK_BLOCKS - 1n : latest;
+    logs.push(...await publicClient.getLogs({
+      address, event: TRANSFER_EVENT, args: { to: account.address }, fromBlock: start, toBlock: end,
+    }));
+  }
+  return logs;
+}
+
+/** Agent tokens the wallet currently owns, with their URIs */
+export async function ownedAgents(registry: Registry): Promise<OwnedAgent[]> {
+  const { publicClient, address, account } = registry;
+  const balance = await publicClient.readContract({
+    address, abi: REGISTRY_ABI, functionName: 'balanceOf', args: [account.address],
+  });
+  if (balance === 0n) return [];
+
+  // Every token the wallet ever received; some may have been transferred away since
+  const logs = await transfersToWallet(registry);
+  const tokenIds = [...new Set(logs.map((l) => l.args.tokenId!))];
+
+  const owned: OwnedAgent[] = [];
+  for (const agentId of tokenIds) {
+    const owner = await publicClient.readContract({ address, abi: REGISTRY_ABI, functionName: 'ownerOf', args: [agentId] });
+    if (owner.toLowerCase() !== account.address.toLowerCase()) continue;
+    const uri = await publicClient.readContract({ address, abi: REGISTRY_ABI, functionName: 'tokenURI', args: [agentId] });
+    owned.push({ agentId, uri });
+  }
+  return owned;
+}
+
+export interface RegistrationTarget {
+  name: string;
+  agentURI: string;
+  // Existing agent to point at agentURI instead of registering a new one
+  agentId?: bigint;
+}
+
+export type Plan =
+  | { action: 'skip'; agentId: bigint }
+  | { action: 'register' }
+  | { action: 'update'; agentId: bigint; previousURI: string };
+
+/** What to send for a target: nothing when the URI is already registered to this wallet */
+export function planRegistration(target: RegistrationTarget, owned: OwnedAgent[]): Plan {
+  const existing = owned.find((a) => a.uri === target.agentURI);
+  if (existing) return { action: 'skip', agentId: existing.agentId };
+  if (target.agentId === undefined) return { action: 'register' };
+
+  const agent = owned.find((a) => a.agentId === target.agentId);
+  if (!agent) throw new Error(`Wallet does not own agent ${target.agentId}`);
+  return { action: 'update', agentId: agent.agentId, previousURI: agent.uri };
+}
+
+/** The agent ID a registration transaction minted, from its receipt logs */
+export function mintedAgentId(logs: Log[], registry: Address) {
+  const minted = parseEventLogs({ abi: REGISTRY_ABI, eventName: 'Transfer', logs })
+    .find((l) => l.args.from === zeroAddress && l.address.toLowerCase() === registry.toLowerCase());
+  return minted?.args.tokenId ?? null;
+}
+
+// === Sending ===
+
+function calldata(target: RegistrationTarget, plan: Plan) {
+  return plan.action === 'update'
+    ? encodeFunctionData({ abi: REGISTRY_ABI, functionName: 'setAgentURI', args: [plan.agentId, target.agentURI] })
+    : encodeFunctionData({ abi: REGISTRY_ABI, functionName: 'register', args: [target.agentURI] });
+}
+
+async function estimateCost(registry: Registry, target: RegistrationTarget, plan: Plan) {
+  const [gas, gasPrice] = await Promise.all([
+    registry.publicClient.estimateGas({ account: registry.account, to: registry.address, data: calldata(target, plan) }),
+    registry.publicClient.getGasPrice(),
+  ]);
+  return { gas, gasPrice, cost: gas * gasPrice };
+}
+
+// Register or update, wait for the receipt, and read the minted agent ID from the Transfer log
+async function send(registry: Registry, target: RegistrationTarget, plan: Plan) {
+  const hash = await registry.walletClient.sendTransaction({
+    account: registry.account, chain: registry.chain, to: registry.address, data: calldata(target, plan),
+  });
+  const receipt = await registry.publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') throw new Error(`Transaction ${hash} reverted`);
+
+  const agentId = plan.action === 'update' ? plan.agentId : mintedAgentId(receipt.logs, registry.address);
+  return { hash, agentId, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed };
+}
+
+// === Running ===
+
+export interface RunOptions {
+  dryRun: boolean;
+  // Send without asking for each transaction
+  yes: boolean;
+}
+
+export interface RegistrationResult {
+  name: string;
+  agentURI: string;
+  action: Plan['action'];
+  status: 'skipped' | 'dry-run' | 'declined' | 'confirmed' | 'failed';
+  agentId: string | null;
+  previousURI?: string;
+  estimatedGas?: string;
+  estimatedCostEth?: string;
+  transactionHash?: string;
+  blockNumber?: string;
+  gasUsed?: string;
+  error?: string;
+}
+
+/**
+ * Plan, estimate, confirm and send each target in turn. One failing target
+ * is recorded and the rest still run, including a failure to read the
+ * wallet's tokens, which the next target retries; each transaction is
+ * confirmed on chain before the next is sent.
+ */
+export async function runRegistrations(registry: Registry, targets: RegistrationTarget[], options: RunOptions) {
+  let owned: OwnedAgent[] | null = null;
+
+  const results: RegistrationResult[] = [];
+  for (const target of targets) {
+    const result: RegistrationResult = { name: target.name, agentURI: target.agentURI, action: 'register', status: 'failed', agentId: null };
+    results.push(result);
+    try {
+      if (!owned) {
+        owned = await ownedAgents(registry);
+        console.log('🪪 Wallet owns', owned.length, 'agent token(s)');
+      }
+      const plan = planRegistration(target, owned);
+      result.action = plan.action;
+      if (plan.action === 'skip') {
+        Object.assign(result, { status: 'skipped', agentId: String(plan.agentId) });
+        console.log(`⏭️  ${target.name}: already registered as agent ${plan.agentId}`);
+        continue;
+      }
+      if (plan.action === 'update') Object.assign(result, { agentId: String(plan.agentId), previousURI: plan.previousURI });
+
+      const { gas, cost } = await estimateCost(registry, target, plan);
+      Object.assign(result, { estimatedGas: String(gas), estimatedCostEth: formatEther(cost) });
+      const summary = plan.action === 'update'
+        ? `update agent ${plan.agentId} from ${plan.previousURI} to ${target.agentURI}`
+        : `register ${target.agentURI}`;
+      console.log(`📝 ${target.name}: ${summary} (~${gas} gas, ~${formatEther(cost)} ETH)`);
+
+      const balance = await registry.publicClient.getBalance({ address: registry.account.address });
+      if (balance < cost) throw new Error(`Balance ${formatEther(balance)} ETH does not cover ~${formatEther(cost)} ETH`);
+
+      if (options.dryRun) {
+        result.status = 'dry-run';
+        continue;
+      }
+      if (!options.yes && !confirm(`   Send ${plan.action} transaction for ${target.name}?`)) {
+        result.status = 'declined';
+        continue;
+      }
+
+      const sent = await send(registry, target, plan);
+      Object.assign(result, {
+        status: 'confirmed',
+        agentId: sent.agentId === null ? null : String(sent.agentId),
+        transactionHash: sent.hash,
+        blockNumber: String(sent.blockNumber),
+        gasUsed: String(sent.gasUsed),
+      });
+      // A later target with the same URI is now a no-op
+      if (sent.agentId !== null) {
+        const index = owned.findIndex((a) => a.agentId === sent.agentId);
+        if (index >= 0) owned.splice(index, 1);
+        owned.push({ agentId: sent.agentId, uri: target.agentURI });
+      }
+      console.log(`✅ ${target.name}: ${sent.hash} (agent ${sent.agentId ?? 'unknown'})`);
+    } catch (error: any) {
+      result.error = error.shortMessage ?? error.message ?? String(error);
+      console.error(`❌ ${target.name}: ${result.error}`);
+    }
+  }
+  return results;
+}
+
+/** Write the run's results, with the chain and wallet they apply to */
+export function writeResults(path: string, registry: Registry, options: RunOptions, results: RegistrationResult[]) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify({
+    chainId: registry.chain.id,
+    registry: registry.address,
+    wallet: registry.account.address,
+    dryRun: options.dryRun,
+    finishedAt: new Date().toISOString(),
+    results,
+  }, null, 2));
+  console.log('\n💾 Results written to', path);
+}
+
+/** Flags shared by the registration CLIs */
+export function cliOptions(argv = process.argv.slice(2)) {
+  const value = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index >= 0 ? argv[index + 1] : undefined;
+  };
+  const agentId = value('--agent-id');
+  return {
+    dryRun: argv.includes('--dry-run'),
+    yes: argv.includes('--yes'),
+    agentId: agentId === undefined ? undefined : BigInt(agentId),
+    out: value('--out') ?? `.data/registration-${new Date().toISOString().replace(/[:.]/g, '-')}.json`,
+  };
+}
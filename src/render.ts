@@ -0,0 +1,191 @@
+/**
+ * Shared output rendering: every entrypoint takes a `format` input and can
+ * answer with CSV, Markdown or compact text instead of JSON.
+ *
+ * The generic renderer turns each array of objects in an output into a
+ * table (nested objects become dotted columns) and every other scalar into
+ * a key/value line. Entrypoints with a natural prose form, like the daily
+ * report, pass their own text and markdown renderers.
+ */
+
+import { z } from 'zod';
+
+export type Format = 'json' | 'csv' | 'markdown' | 'text';
+type RenderedFormat = Exclude<Format, 'json'>;
+
+export const FormatInput = z.enum(['json', 'csv', 'markdown', 'text']).optional().default('json')
+  .describe('Response format: structured JSON, or CSV, Markdown tables or plain text as a single string');
+
+export const RenderedOutput = z.object({
+  format: z.enum(['csv', 'markdown', 'text']),
+  contentType: z.string(),
+  content: z.string(),
+});
+
+/** An entrypoint's output contract when it accepts `format` */
+export function formatted<T extends z.ZodType>(schema: T) {
+  return z.union([schema, RenderedOutput]);
+}
+
+const CONTENT_TYPES: Record<RenderedFormat, string> = {
+  csv: 'text/csv',
+  markdown: 'text/markdown',
+  text: 'text/plain',
+};
+
+// Response metadata that means nothing in a table or digest
+const SKIPPED_KEYS = new Set(['cache']);
+
+type Scalar = string | number | boolean | null;
+
+interface Table {
+  name: string;
+  columns: string[];
+  rows: Record<string, Scalar>[];
+}
+
+interface Document {
+  fields: [string, Scalar][];
+  tables: Table[];
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTable = (value: unknown): value is Record<string, unknown>[] =>
+  Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+// A row's first string field, used to name the tables nested inside it
+function rowLabel(row: Record<string, unknown>, index: number) {
+  const label = Object.values(row).find((v) => typeof v === 'string');
+  return typeof label === 'string' ? label : String(index + 1);
+}
+
+function flattenRow(row: Record<string, unknown>, doc: Document, path: string, prefix = ''): Record<string, Scalar> {
+  const flat: Record<string, Scalar> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (SKIPPED_KEYS.has(key) || value === undefined) continue;
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isTable(value)) collect(value, doc, `${path}.${key}`);
+    else if (Array.isArray(value)) flat[column] = value.map((v) => (isPlainObject(v) ? JSON.stringify(v) : String(v))).join('; ');
+    else if (isPlainObject(value)) Object.assign(flat, flattenRow(value, doc, path, column));
+    else flat[column] = value as Scalar;
+  }
+  return flat;
+}
+
+function collect(value: unknown, doc: Document, path: string) {
+  if (isTable(value)) {
+    const rows = value.map((row, i) => flattenRow(row, doc, `${path}[${rowLabel(row, i)}]`));
+    const columns = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+    doc.tables.push({ name: path, columns, rows });
+    return;
+  }
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      if (SKIPPED_KEYS.has(key) || child === undefined) continue;
+      collect(child, doc, path ? `${path}.${key}` : key);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    if (value.length) doc.fields.push([path, value.join('; ')]);
+    return;
+  }
+  doc.fields.push([path, value as Scalar]);
+}
+
+/** Split an output into key/value fields and tables */
+export function toDocument(output: unknown): Document {
+  const doc: Document = { fields: [], tables: [] };
+  collect(output, doc, '');
+  // Nested tables are collected before their parent; list parents first
+  doc.tables.sort((a, b) => a.name.split('.').length - b.name.split('.').length);
+  return doc;
+}
+
+const cell = (value: Scalar | undefined) => (value === null || value === undefined ? '' : String(value));
+
+function csvCell(value: Scalar | undefined) {
+  const text = cell(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: Table) {
+  const lines = [table.columns.map(csvCell).join(',')];
+  for (const row of table.rows) lines.push(table.columns.map((c) => csvCell(row[c])).join(','));
+  return lines.join('\n');
+}
+
+const mdCell = (value: Scalar | undefined) => cell(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function toMarkdownTable(table: Table) {
+  return [
+    `| ${table.columns.map(mdCell).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map((row) => `| ${table.columns.map((c) => mdCell(row[c])).join(' | ')} |`),
+  ].join('\n');
+}
+
+function renderCsv(doc: Document) {
+  // A single table stays a plain CSV file; anything more gets section headers
+  if (doc.tables.length === 1 && doc.fields.length === 0) return toCsv(doc.tables[0]);
+  const sections: string[] = [];
+  if (doc.fields.length) sections.push(['field,value', ...doc.fields.map(([k, v]) => `${csvCell(k)},${csvCell(v)}`)].join('\n'));
+  for (const table of doc.tables) sections.push(`# ${table.name}\n${toCsv(table)}`);
+  return sections.join('\n\n');
+}
+
+// Prose formats leave out empty fields; CSV keeps them so columns stay stable
+const filled = (doc: Document) => doc.fields.filter(([, v]) => v !== null && v !== '');
+
+function renderMarkdown(doc: Document) {
+  const sections: string[] = [];
+  if (filled(doc).length) sections.push(filled(doc).map(([k, v]) => `- **${k}**: ${cell(v)}`).join('\n'));
+  for (const table of doc.tables) sections.push(`### ${table.name}\n\n${toMarkdownTable(table)}`);
+  return sections.join('\n\n');
+}
+
+function renderText(doc: Document) {
+  const sections: string[] = [];
+  if (filled(doc).length) sections.push(filled(doc).map(([k, v]) => `${k}: ${cell(v)}`).join('\n'));
+  for (const table of doc.tables) {
+    const lines = table.rows.map((row) =>
+      table.columns.filter((c) => row[c] !== null && row[c] !== undefined && row[c] !== '').map((c) => `${c} ${cell(row[c])}`).join(', '));
+    sections.push(`${table.name}:\n${lines.map((l, i) => `${i + 1}. ${l}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+const GENERIC: Record<RenderedFormat, (doc: Document) => string> = {
+  csv: renderCsv,
+  markdown: renderMarkdown,
+  text: renderText,
+};
+
+export type Renderers<O> = Partial<Record<RenderedFormat, (output: O) => string>>;
+
+export function render<O>(output: O, format: RenderedFormat, renderers: Renderers<O> = {}) {
+  const custom = renderers[format];
+  return {
+    format,
+    contentType: CONTENT_TYPES[format],
+    content: custom ? custom(output) : GENERIC[format](toDocument(output)),
+  };
+}
+
+/**
+ * Wrap an entrypoint handler so non-JSON formats come back rendered.
+ * Error outputs always stay JSON so callers can still read the error code.
+ */
+export function withFormat<C extends { input: { format?: Format } }, O>(
+  handler: (ctx: C) => Promise<{ output: O }>,
+  renderers: Renderers<Exclude<O, { error: unknown }>> = {},
+) {
+  return async (ctx: C) => {
+    const result = await handler(ctx);
+    const format = ctx.input.format ?? 'json';
+    if (format === 'json' || (isPlainObject(result.output) && 'error' in result.output)) return result;
+    return { output: render(result.output as Exclude<O, { error: unknown }>, format, renderers) };
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Ready-to-post daily digest for the `report` entrypoint, as Markdown for
+ * Slack and docs or as plain text for chat and LLM prompts.
+ */
+
+import type { z } from 'zod';
+import type { ReportOutput } from './outputs';
+
+type Report = z.infer<typeof ReportOutput>;
+
+const TOP_TEAMS = 5;
+
+const STATE_LABELS: Record<string, string> = { FUT: 'upcoming', PRE: 'pregame', LIVE: 'live', CRIT: 'live', FINAL: 'final', OFF: 'final' };
+
+function gameLine(g: Report['todaySchedule'][number]) {
+  const label = STATE_LABELS[g.state] ?? g.state.toLowerCase();
+  if (g.homeScore === undefined || g.awayScore === undefined) {
+    const time = g.startTime ? ` ${g.startTime.slice(11, 16)} UTC` : '';
+    return `${g.away} @ ${g.home}${time} (${label})`;
+  }
+  return `${g.away} ${g.awayScore} @ ${g.home} ${g.homeScore} (${label})`;
+}
+
+const leaderLine = (l: { name: string; team: string }, value: number | string) => `${l.name} (${l.team}) ${value}`;
+
+function sections(report: Report) {
+  // Dated by the data it shows, so a cached or replayed report keeps its day
+  const day = report.date ?? report.summary.asOf?.slice(0, 10);
+  return {
+    title: day ? `NHL daily digest: ${day}` : 'NHL daily digest',
+    standings: report.standings.slice(0, TOP_TEAMS).map((t) =>
+      `${t.team} ${t.points} pts (${t.record}, L10 ${t.last10}${t.streak ? `, ${t.streak}` : ''})`),
+    leaders: ([
+      ['Goals', report.leaders.goals],
+      ['Assists', report.leaders.assists],
+      ['Points', report.leaders.points],
+    ] as const).flatMap(([label, [top]]) => (top ? [`${label}: ${leaderLine(top, top.value)}`] : [])),
+    goalie: report.leaders.goalies[0]
+      ? `Save %: ${leaderLine(report.leaders.goalies[0], report.leaders.goalies[0].savePctg.toFixed(3))}`
+      : null,
+    games: report.todaySchedule.map(gameLine),
+  };
+}
+
+export function reportMarkdown(report: Report) {
+  const s = sections(report);
+  return [
+    `## ${s.title}`,
+    `**Top ${TOP_TEAMS}**\n${s.standings.map((l, i) => `${i + 1}. ${l}`).join('\n')}`,
+    `**Leaders**\n${[...s.leaders, ...(s.goalie ? [s.goalie] : [])].map((l) => `- ${l}`).join('\n')}`,
+    `**Games (${s.games.length})**\n${s.games.length ? s.games.map((l) => `- ${l}`).join('\n') : '- No games scheduled'}`,
+  ].join('\n\n');
+}
+
+export function reportText(report: Report) {
+  const s = sections(report);
+  return [
+    s.title,
+    `Top ${TOP_TEAMS}: ${s.standings.join('; ')}`,
+    `Leaders: ${[...s.leaders, ...(s.goalie ? [s.goalie] : [])].join('; ')}`,
+    `Games (${s.games.length}): ${s.games.length ? s.games.join('; ') : 'none scheduled'}`,
+  ].join('\n');
+}
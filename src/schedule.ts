@@ -0,0 +1,160 @@
+/**
+ * Team and league schedules: results with W/L/OTL outcomes, upcoming games,
+ * rest days, back-to-backs and home/away splits.
+ */
+
+import { fixtureDate } from './fixtures';
+import { fetchNHL } from './nhl-api';
+import { ClubScheduleSchema, LeagueScheduleSchema, type ScheduleGame } from './schemas';
+import { GAME_TYPE_CODES, seasonSegment, type GameType } from './seasons';
+import { abbrevInSeason } from './teams';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COMPLETED_STATES = new Set(['FINAL', 'OFF']);
+export const MAX_LEAGUE_RANGE_DAYS = 14;
+
+export type GameResult = 'W' | 'L' | 'OTL';
+
+export const isFinal = (state?: string) => COMPLETED_STATES.has(state ?? '');
+
+export const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+export function addDays(date: string, days: number) {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Pinned to the recording day when replaying fixtures
+export const today = () => fixtureDate() ?? new Date().toISOString().slice(0, 10);
+
+/** W, L or OTL from one team's point of view, once a game is final */
+export function gameResult(game: Omit<ScheduleGame, 'gameDate'>, team: string): GameResult | null {
+  const { homeTeam, awayTeam } = game;
+  if (!isFinal(game.gameState) || homeTeam.score === undefined || awayTeam.score === undefined) return null;
+  const [own, opp] = homeTeam.abbrev === team ? [homeTeam.score, awayTeam.score] : [awayTeam.score, homeTeam.score];
+  if (own > opp) return 'W';
+  return game.gameOutcome?.lastPeriodType === 'OT' || game.gameOutcome?.lastPeriodType === 'SO' ? 'OTL' : 'L';
+}
+
+export interface TeamGame {
+  gameId: number;
+  date: string;
+  startTime?: string;
+  venue?: string;
+  state?: string;
+  home: boolean;
+  opponent: string;
+  teamScore?: number;
+  opponentScore?: number;
+  result: GameResult | null;
+  decidedIn: string | null;
+  /** Full days off since the team's previous game, null for its first */
+  restDays: number | null;
+  backToBack: boolean;
+}
+
+/** A team's games in date order, each annotated from that team's perspective */
+export function annotateTeamGames(games: ScheduleGame[], team: string): TeamGame[] {
+  const sorted = [...games].sort((a, b) => a.gameDate.localeCompare(b.gameDate));
+  return sorted.map((g, i) => {
+    const home = g.homeTeam.abbrev === team;
+    const restDays = i > 0 ? daysBetween(sorted[i - 1].gameDate, g.gameDate) - 1 : null;
+    const result = gameResult(g, team);
+    return {
+      gameId: g.id,
+      date: g.gameDate,
+      startTime: g.startTimeUTC,
+      venue: g.venue?.default,
+      state: g.gameState,
+      home,
+      opponent: home ? g.awayTeam.abbrev : g.homeTeam.abbrev,
+      teamScore: home ? g.homeTeam.score : g.awayTeam.score,
+      opponentScore: home ? g.awayTeam.score : g.homeTeam.score,
+      result,
+      decidedIn: result ? g.gameOutcome?.lastPeriodType ?? null : null,
+      restDays,
+      backToBack: restDays === 0,
+    };
+  });
+}
+
+function splitRecord(games: TeamGame[]) {
+  const played = games.filter((g) => g.result);
+  return {
+    gamesPlayed: played.length,
+    wins: played.filter((g) => g.result === 'W').length,
+    losses: played.filter((g) => g.result === 'L').length,
+    otLosses: played.filter((g) => g.result === 'OTL').length,
+    goalsFor: played.reduce((sum, g) => sum + (g.teamScore ?? 0), 0),
+    goalsAgainst: played.reduce((sum, g) => sum + (g.opponentScore ?? 0), 0),
+  };
+}
+
+export const teamScheduleEndpoint = (team: string, season?: number) =>
+  `/club-schedule-season/${abbrevInSeason(team, season)}/${seasonSegment(season)}`;
+
+/** A team's season schedule, annotated, filtered to a game type */
+export async function fetchTeamGames(team: string, opts: { season?: number; gameType?: GameType } = {}) {
+  const schedule = await fetchNHL(teamScheduleEndpoint(team, opts.season), ClubScheduleSchema);
+  const code = GAME_TYPE_CODES[opts.gameType ?? 'regular'];
+  // Past seasons list the team under the abbreviation it had then
+  return annotateTeamGames(
+    schedule.games.filter((g) => g.gameType === undefined || g.gameType === code),
+    abbrevInSeason(team, opts.season),
+  );
+}
+
+export async function teamSchedule(team: string, opts: { season?: number; gameType?: GameType; from?: string; to?: string }) {
+  // Rest days are computed over the whole season before any date filtering
+  const all = await fetchTeamGames(team, opts);
+  const games = all.filter((g) => (!opts.from || g.date >= opts.from) && (!opts.to || g.date <= opts.to));
+  const upcoming = games.filter((g) => !isFinal(g.state));
+  const rested = games.filter((g) => g.restDays !== null);
+
+  return {
+    team,
+    past: games.filter((g) => isFinal(g.state)),
+    upcoming,
+    splits: {
+      home: splitRecord(games.filter((g) => g.home)),
+      away: splitRecord(games.filter((g) => !g.home)),
+    },
+    backToBacks: games.filter((g) => g.backToBack).length,
+    upcomingBackToBacks: upcoming.filter((g) => g.backToBack).length,
+    averageRestDays: rested.length
+      ? Math.round((rested.reduce((sum, g) => sum + g.restDays!, 0) / rested.length) * 10) / 10
+      : null,
+  };
+}
+
+/** Every league game between two dates, fetched a week at a time */
+export async function leagueSchedule(from: string, to: string) {
+  const endpoints: string[] = [];
+  for (let start = from; start <= to; start = addDays(start, 7)) endpoints.push(`/schedule/${start}`);
+  const weeks = await Promise.all(endpoints.map((e) => fetchNHL(e, LeagueScheduleSchema)));
+
+  const days = new Map<string, ReturnType<typeof leagueGame>[]>();
+  for (const week of weeks) {
+    for (const day of week.gameWeek) {
+      if (day.date < from || day.date > to) continue;
+      days.set(day.date, day.games.map(leagueGame));
+    }
+  }
+  return {
+    days: [...days.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([date, games]) => ({ date, games })),
+    endpoints,
+  };
+}
+
+function leagueGame(g: Omit<ScheduleGame, 'gameDate'>) {
+  return {
+    gameId: g.id,
+    startTime: g.startTimeUTC,
+    venue: g.venue?.default,
+    state: g.gameState,
+    home: g.homeTeam.abbrev,
+    away: g.awayTeam.abbrev,
+    homeScore: g.homeTeam.score,
+    awayScore: g.awayTeam.score,
+    decidedIn: isFinal(g.gameState) ? g.gameOutcome?.lastPeriodType ?? null : null,
+  };
+}
@@ -0,0 +1,429 @@
+/**
+ * Zod schemas for the NHL API payloads this agent consumes. Every upstream
+ * response is validated against one of these in fetchNHL, so a renamed or
+ * missing field surfaces as schema drift instead of undefined output.
+ */
+
+import { z } from 'zod';
+
+// Localised strings come back as { default: 'Boston', fr: '...' }
+const Localized = z.object({ default: z.string() });
+
+export const StandingsTeamSchema = z.object({
+  teamAbbrev: Localized,
+  teamName: Localized,
+  conferenceAbbrev: z.string(),
+  conferenceName: z.string(),
+  divisionName: z.string(),
+  gamesPlayed: z.number(),
+  wins: z.number(),
+  losses: z.number(),
+  otLosses: z.number(),
+  points: z.number(),
+  pointPctg: z.number(),
+  goalFor: z.number(),
+  goalAgainst: z.number(),
+  goalDifferential: z.number(),
+  regulationWins: z.number().optional(),
+  regulationPlusOtWins: z.number().optional(),
+  // x / y / z / p / e once the NHL marks a team clinched or eliminated
+  clinchIndicator: z.string().optional(),
+  // Absent before a team's first game of the season
+  streakCode: z.string().optional(),
+  streakCount: z.number().optional(),
+  l10Wins: z.number(),
+  l10Losses: z.number(),
+  l10OtLosses: z.number(),
+  leagueSequence: z.number(),
+  conferenceSequence: z.number(),
+  divisionSequence: z.number(),
+});
+
+export const StandingsSchema = z.object({
+  standingsDateTimeUtc: z.string().optional(),
+  standings: z.array(StandingsTeamSchema),
+});
+
+export const StandingsSeasonSchema = z.object({
+  seasons: z.array(z.object({
+    id: z.number(),
+    standingsStart: z.string(),
+    standingsEnd: z.string(),
+  })),
+});
+
+export const LeaderSchema = z.object({
+  id: z.number(),
+  firstName: Localized,
+  lastName: Localized,
+  teamAbbrev: z.string(),
+  position: z.string(),
+  value: z.number(),
+});
+
+// Keyed by category (goals, assists, points, savePctg, ...)
+export const LeadersSchema = z.record(z.string(), z.array(LeaderSchema));
+
+const PeriodDescriptorSchema = z.object({
+  number: z.number(),
+  periodType: z.string(),
+});
+
+const ScoreTeamSchema = z.object({
+  abbrev: z.string(),
+  score: z.number().optional(),
+});
+
+// Scoring plays on /score/now, oldest first; goalsToDate is the scorer's season total
+const ScoreGoalSchema = z.object({
+  period: z.number().optional(),
+  timeInPeriod: z.string().optional(),
+  playerId: z.number(),
+  name: Localized,
+  teamAbbrev: z.string(),
+  goalsToDate: z.number().optional(),
+  strength: z.string().optional(),
+  assists: z.array(z.object({
+    playerId: z.number(),
+    name: Localized,
+    assistsToDate: z.number().optional(),
+  })).default([]),
+});
+
+export const ScoreGameSchema = z.object({
+  id: z.number(),
+  gameState: z.string(),
+  startTimeUTC: z.string().optional(),
+  venue: Localized.optional(),
+  homeTeam: ScoreTeamSchema,
+  awayTeam: ScoreTeamSchema,
+  // Only present once the game is under way
+  periodDescriptor: PeriodDescriptorSchema.optional(),
+  clock: z.object({
+    timeRemaining: z.string(),
+    inIntermission: z.boolean(),
+  }).optional(),
+  goals: z.array(ScoreGoalSchema).optional(),
+});
+
+export const ScoreSchema = z.object({
+  currentDate: z.string().optional(),
+  games: z.array(ScoreGameSchema).default([]),
+});
+
+export const RosterPlayerSchema = z.object({
+  id: z.number(),
+  firstName: Localized,
+  lastName: Localized,
+  sweaterNumber: z.number().optional(),
+  positionCode: z.string(),
+  birthCountry: z.string().optional(),
+});
+
+export const RosterSchema = z.object({
+  forwards: z.array(RosterPlayerSchema).default([]),
+  defensemen: z.array(RosterPlayerSchema).default([]),
+  goalies: z.array(RosterPlayerSchema).default([]),
+});
+
+export const ScheduleGameSchema = z.object({
+  id: z.number(),
+  gameType: z.number().optional(),
+  gameDate: z.string(),
+  startTimeUTC: z.string().optional(),
+  gameState: z.string().optional(),
+  venue: Localized.optional(),
+  homeTeam: ScoreTeamSchema,
+  awayTeam: ScoreTeamSchema,
+  gameOutcome: z.object({ lastPeriodType: z.string() }).optional(),
+});
+
+export const ClubScheduleSchema = z.object({
+  games: z.array(ScheduleGameSchema).default([]),
+});
+
+// League-wide /schedule/{date}: the week starting at that date, grouped by day
+export const LeagueScheduleSchema = z.object({
+  gameWeek: z.array(z.object({
+    date: z.string(),
+    games: z.array(ScheduleGameSchema.omit({ gameDate: true })).default([]),
+  })).default([]),
+});
+
+// Featured stat lines only carry the fields relevant to the player's position
+const FeaturedStatsSchema = z.object({
+  gamesPlayed: z.number().optional(),
+  goals: z.number().optional(),
+  assists: z.number().optional(),
+  points: z.number().optional(),
+  plusMinus: z.number().optional(),
+  pim: z.number().optional(),
+  powerPlayGoals: z.number().optional(),
+  gameWinningGoals: z.number().optional(),
+  shots: z.number().optional(),
+  shootingPctg: z.number().optional(),
+  // Goalies
+  wins: z.number().optional(),
+  losses: z.number().optional(),
+  otLosses: z.number().optional(),
+  shutouts: z.number().optional(),
+  goalsAgainstAvg: z.number().optional(),
+  savePctg: z.number().optional(),
+});
+
+// One row per season, team and game type the player appeared in
+export const SeasonTotalSchema = z.object({
+  season: z.number(),
+  gameTypeId: z.number(),
+  leagueAbbrev: z.string(),
+  teamName: Localized.optional(),
+  gamesPlayed: z.number().optional(),
+  goals: z.number().optional(),
+  assists: z.number().optional(),
+  points: z.number().optional(),
+  shots: z.number().optional(),
+  avgToi: z.string().optional(),
+  // Goalies
+  gamesStarted: z.number().optional(),
+  wins: z.number().optional(),
+  losses: z.number().optional(),
+  otLosses: z.number().optional(),
+  shutouts: z.number().optional(),
+  goalsAgainst: z.number().optional(),
+  shotsAgainst: z.number().optional(),
+  savePctg: z.number().optional(),
+  goalsAgainstAvg: z.number().optional(),
+  timeOnIce: z.string().optional(),
+});
+
+// The player's five most recent appearances; goalie fields only for goalies
+export const LastGameSchema = z.object({
+  gameId: z.number(),
+  gameDate: z.string(),
+  opponentAbbrev: z.string(),
+  homeRoadFlag: z.string(),
+  toi: z.string().optional(),
+  gamesStarted: z.number().optional(),
+  decision: z.string().optional(),
+  shotsAgainst: z.number().optional(),
+  goalsAgainst: z.number().optional(),
+  savePctg: z.number().optional(),
+});
+
+export const PlayerLandingSchema = z.object({
+  playerId: z.number(),
+  firstName: Localized,
+  lastName: Localized,
+  // Missing for retired players and unsigned free agents
+  currentTeamAbbrev: z.string().optional(),
+  fullTeamName: Localized.optional(),
+  sweaterNumber: z.number().optional(),
+  position: z.string(),
+  birthDate: z.string(),
+  birthCity: Localized.optional(),
+  birthCountry: z.string().optional(),
+  heightInCentimeters: z.number().optional(),
+  weightInKilograms: z.number().optional(),
+  shootsCatches: z.string().optional(),
+  headshot: z.string().optional(),
+  featuredStats: z.object({
+    regularSeason: z.object({
+      subSeason: FeaturedStatsSchema.optional(),
+      career: FeaturedStatsSchema.optional(),
+    }).optional(),
+  }).optional(),
+  seasonTotals: z.array(SeasonTotalSchema).default([]),
+  last5Games: z.array(LastGameSchema).default([]),
+});
+
+// One line per game, newest first; goalie fields only for goalies
+export const GameLogEntrySchema = z.object({
+  gameId: z.number(),
+  gameDate: z.string(),
+  opponentAbbrev: z.string(),
+  homeRoadFlag: z.string(),
+  toi: z.string().optional(),
+  goals: z.number().optional(),
+  assists: z.number().optional(),
+  points: z.number().optional(),
+  plusMinus: z.number().optional(),
+  powerPlayGoals: z.number().optional(),
+  shots: z.number().optional(),
+  pim: z.number().optional(),
+  gamesStarted: z.number().optional(),
+  decision: z.string().optional(),
+  shotsAgainst: z.number().optional(),
+  goalsAgainst: z.number().optional(),
+  savePctg: z.number().optional(),
+});
+
+export const GameLogSchema = z.object({
+  gameLog: z.array(GameLogEntrySchema).default([]),
+});
+
+const BoxscoreTeamSchema = z.object({
+  id: z.number(),
+  abbrev: z.string(),
+  score: z.number().optional(),
+  sog: z.number().optional(),
+});
+
+// Season-to-date player stats for one club (/club-stats/{team}/now)
+export const ClubStatsSchema = z.object({
+  skaters: z.array(z.object({
+    playerId: z.number(),
+    firstName: Localized,
+    lastName: Localized,
+    positionCode: z.string(),
+    gamesPlayed: z.number(),
+    goals: z.number(),
+    assists: z.number(),
+    points: z.number(),
+    plusMinus: z.number().optional(),
+    penaltyMinutes: z.number().optional(),
+    shots: z.number().optional(),
+    powerPlayGoals: z.number().optional(),
+    shorthandedGoals: z.number().optional(),
+    // Not in every season's payload; fantasy scoring skips them when absent
+    powerPlayPoints: z.number().optional(),
+    hits: z.number().optional(),
+    blockedShots: z.number().optional(),
+  })).default([]),
+  goalies: z.array(z.object({
+    playerId: z.number(),
+    firstName: Localized,
+    lastName: Localized,
+    gamesPlayed: z.number(),
+    gamesStarted: z.number().optional(),
+    wins: z.number().optional(),
+    losses: z.number().optional(),
+    overtimeLosses: z.number().optional(),
+    goalsAgainstAverage: z.number().optional(),
+    savePercentage: z.number().optional(),
+    shotsAgainst: z.number().optional(),
+    saves: z.number().optional(),
+    goalsAgainst: z.number().optional(),
+    shutouts: z.number().optional(),
+  })).default([]),
+});
+
+// Season summary of every team from the stats REST API (/stats/rest/en/team/summary)
+export const TeamSummarySchema = z.object({
+  data: z.array(z.object({
+    teamId: z.number(),
+    teamFullName: z.string(),
+    seasonId: z.number(),
+    gamesPlayed: z.number(),
+    // Fractions (0.215); null before a team has had a power play or penalty kill
+    powerPlayPct: z.number().nullable().optional(),
+    penaltyKillPct: z.number().nullable().optional(),
+  })),
+});
+
+export const BoxscoreSkaterSchema = z.object({
+  playerId: z.number(),
+  sweaterNumber: z.number().optional(),
+  name: Localized,
+  position: z.string(),
+  goals: z.number().default(0),
+  assists: z.number().default(0),
+  points: z.number().default(0),
+  plusMinus: z.number().default(0),
+  pim: z.number().default(0),
+  hits: z.number().default(0),
+  blockedShots: z.number().default(0),
+  powerPlayGoals: z.number().default(0),
+  sog: z.number().default(0),
+  toi: z.string().optional(),
+});
+
+export const BoxscoreGoalieSchema = z.object({
+  playerId: z.number(),
+  sweaterNumber: z.number().optional(),
+  name: Localized,
+  // Newer payloads split these out; older ones only carry "saves/shots"
+  saves: z.number().optional(),
+  shotsAgainst: z.number().optional(),
+  saveShotsAgainst: z.string().optional(),
+  goalsAgainst: z.number().optional(),
+  savePctg: z.number().optional(),
+  toi: z.string().optional(),
+  starter: z.boolean().optional(),
+  decision: z.string().optional(),
+});
+
+const TeamPlayerStatsSchema = z.object({
+  forwards: z.array(BoxscoreSkaterSchema).default([]),
+  defense: z.array(BoxscoreSkaterSchema).default([]),
+  goalies: z.array(BoxscoreGoalieSchema).default([]),
+});
+
+export const BoxscoreSchema = z.object({
+  id: z.number(),
+  gameDate: z.string(),
+  gameState: z.string(),
+  startTimeUTC: z.string().optional(),
+  venue: Localized.optional(),
+  periodDescriptor: PeriodDescriptorSchema.optional(),
+  clock: z.object({
+    timeRemaining: z.string(),
+    inIntermission: z.boolean(),
+  }).optional(),
+  homeTeam: BoxscoreTeamSchema,
+  awayTeam: BoxscoreTeamSchema,
+  // Absent until the game starts
+  playerByGameStats: z.object({
+    homeTeam: TeamPlayerStatsSchema,
+    awayTeam: TeamPlayerStatsSchema,
+  }).optional(),
+});
+
+export const PlaySchema = z.object({
+  eventId: z.number(),
+  periodDescriptor: PeriodDescriptorSchema,
+  timeInPeriod: z.string(),
+  typeDescKey: z.string(),
+  details: z.object({
+    eventOwnerTeamId: z.number().optional(),
+    scoringPlayerId: z.number().optional(),
+    assist1PlayerId: z.number().optional(),
+    assist2PlayerId: z.number().optional(),
+    shootingPlayerId: z.number().optional(),
+    committedByPlayerId: z.number().optional(),
+    homeScore: z.number().optional(),
+    awayScore: z.number().optional(),
+    descKey: z.string().optional(),
+    duration: z.number().optional(),
+  }).optional(),
+});
+
+export const PlayByPlaySchema = z.object({
+  id: z.number(),
+  homeTeam: z.object({ id: z.number(), abbrev: z.string() }),
+  awayTeam: z.object({ id: z.number(), abbrev: z.string() }),
+  rosterSpots: z.array(z.object({
+    teamId: z.number(),
+    playerId: z.number(),
+    firstName: Localized,
+    lastName: Localized,
+  })).default([]),
+  plays: z.array(PlaySchema).default([]),
+});
+
+export type StandingsTeam = z.infer<typeof StandingsTeamSchema>;
+export type Leader = z.infer<typeof LeaderSchema>;
+export type ScoreGame = z.infer<typeof ScoreGameSchema>;
+export type ScoreGoal = z.infer<typeof ScoreGoalSchema>;
+export type ClubStats = z.infer<typeof ClubStatsSchema>;
+export type RosterPlayer = z.infer<typeof RosterPlayerSchema>;
+export type ScheduleGame = z.infer<typeof ScheduleGameSchema>;
+export type PlayerLanding = z.infer<typeof PlayerLandingSchema>;
+export type FeaturedStats = z.infer<typeof FeaturedStatsSchema>;
+export type LastGame = z.infer<typeof LastGameSchema>;
+export type GameLogEntry = z.infer<typeof GameLogEntrySchema>;
+export type SeasonTotal = z.infer<typeof SeasonTotalSchema>;
+export type Boxscore = z.infer<typeof BoxscoreSchema>;
+export type BoxscoreSkater = z.infer<typeof BoxscoreSkaterSchema>;
+export type BoxscoreGoalie = z.infer<typeof BoxscoreGoalieSchema>;
+export type PlayByPlay = z.infer<typeof PlayByPlaySchema>;
+export type Play = z.infer<typeof PlaySchema>;
@@ -0,0 +1,92 @@
+/**
+ * Season, date and game-type selection shared by the entrypoints that can
+ * answer retrospective questions ("standings on Jan 1", "2022-23 goal leaders").
+ */
+
+import { z } from 'zod';
+import { fetchNHL } from './nhl-api';
+import { InvalidInputError, NotFoundError } from './errors';
+import { StandingsSeasonSchema } from './schemas';
+
+export const SeasonInput = z.number().int().min(19171918).max(21002101)
+  .refine((s) => Math.floor(s / 10000) + 1 === s % 10000, { message: 'Season must look like 20232024' })
+  .describe('Season as start and end year (e.g., 20232024)');
+
+export const DateInput = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  // The shape alone lets through days like 2024-13-45
+  .refine((d) => !Number.isNaN(Date.parse(d)) && new Date(d).toISOString().slice(0, 10) === d, 'Not a calendar date')
+  .describe('Calendar date (YYYY-MM-DD)');
+
+export const GameTypeInput = z.enum(['regular', 'playoffs']).optional().default('regular')
+  .describe('Regular season or playoffs');
+
+export type GameType = 'regular' | 'playoffs';
+
+// NHL API game type codes
+export const GAME_TYPE_CODES: Record<GameType, number> = { regular: 2, playoffs: 3 };
+
+async function findSeason(season: number) {
+  const { seasons } = await fetchNHL('/standings-season', StandingsSeasonSchema);
+  const match = seasons.find((s) => s.id === season);
+  if (!match) throw new NotFoundError('/standings-season', `Season ${season} not found`);
+  return match;
+}
+
+export async function currentSeason() {
+  const { seasons } = await fetchNHL('/standings-season', StandingsSeasonSchema);
+  const latest = seasons.at(-1);
+  if (!latest) throw new NotFoundError('/standings-season', 'No seasons available');
+  return latest.id;
+}
+
+/**
+ * The season a date belongs to: the latest one whose standings began on or
+ * before it, so playoff and offseason dates count toward the season just played.
+ */
+export async function seasonOf(date: string) {
+  const { seasons } = await fetchNHL('/standings-season', StandingsSeasonSchema);
+  const season = seasons.filter((s) => s.standingsStart <= date).at(-1);
+  if (!season) throw new NotFoundError('/standings-season', `No season found for ${date}`);
+  return season.id;
+}
+
+/**
+ * Settle a season and date given together: a date selects its own season,
+ * and a season given alongside it must agree. The season comes back
+ * undefined when the date is in the current season, so current endpoints
+ * (`now`, `current`) are used for it.
+ */
+export async function pointInTime<T extends { season?: number; date?: string }>(opts: T): Promise<T> {
+  if (!opts.date) return opts;
+  const season = await seasonOf(opts.date);
+  if (opts.season && opts.season !== season) {
+    throw new InvalidInputError('/standings-season', `Date ${opts.date} falls in season ${season}, not ${opts.season}`);
+  }
+  return { ...opts, season: season === await currentSeason() ? undefined : season };
+}
+
+/**
+ * Standings endpoint for a point in time: an explicit date, the final day
+ * of a season, or today. A date and season given together must agree.
+ */
+export async function standingsEndpoint(opts: { season?: number; date?: string }) {
+  if (opts.date) {
+    if (opts.season) await pointInTime(opts);
+    return `/standings/${opts.date}`;
+  }
+  if (opts.season) return `/standings/${(await findSeason(opts.season)).standingsEnd}`;
+  return '/standings/now';
+}
+
+/** Skater or goalie leaders endpoint for a season and game type */
+export async function leadersEndpoint(kind: 'skater' | 'goalie', opts: { season?: number; gameType?: GameType }) {
+  const gameType = opts.gameType ?? 'regular';
+  if (!opts.season && gameType === 'regular') return `/${kind}-stats-leaders/current`;
+  const season = opts.season ?? await currentSeason();
+  return `/${kind}-stats-leaders/${season}/${GAME_TYPE_CODES[gameType]}`;
+}
+
+/** Season segment used by the roster and club schedule endpoints */
+export function seasonSegment(season?: number, fallback = 'now') {
+  return season ? String(season) : fallback;
+}
@@ -0,0 +1,258 @@
+/**
+ * Daily snapshots of standings and stat leaders in an embedded SQLite
+ * database, so answers can show movement over time: rank changes since the
+ * previous snapshot, and per-team or per-player time series.
+ *
+ * The snapshotter keeps one snapshot per day (a re-run the same day
+ * overwrites it). On an empty store it backfills recent standings from the
+ * dated standings endpoint; leaders have no dated endpoint, so their
+ * history starts with the first snapshot.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { fetchNHL } from './nhl-api';
+import { LeadersSchema, StandingsSchema, type Leader, type StandingsTeam } from './schemas';
+import { leadersEndpoint } from './seasons';
+import { addDays, today } from './schedule';
+
+const DB_PATH = process.env.SNAPSHOT_DB ?? '.data/snapshots.sqlite';
+// 0 turns the snapshotter off; snapshots are then taken only by calling takeSnapshot
+const CHECK_INTERVAL_MS = Number(process.env.SNAPSHOT_CHECK_INTERVAL_MS ?? 60 * 60 * 1000);
+const BACKFILL_DAYS = Number(process.env.SNAPSHOT_BACKFILL_DAYS ?? 7);
+
+// History metrics, mapped to their standings_snapshots column
+export const TEAM_METRICS = {
+  points: 'points',
+  gamesPlayed: 'games_played',
+  wins: 'wins',
+  losses: 'losses',
+  otLosses: 'ot_losses',
+  pointPctg: 'point_pctg',
+  goalsFor: 'goals_for',
+  goalsAgainst: 'goals_against',
+  goalDiff: 'goal_diff',
+  leagueRank: 'league_rank',
+  conferenceRank: 'conference_rank',
+  divisionRank: 'division_rank',
+} as const;
+
+export type TeamMetric = keyof typeof TEAM_METRICS;
+
+// Leader categories stored per snapshot, by leaders endpoint; the same names the leaders entrypoint takes
+const SNAPSHOT_CATEGORIES = {
+  skater: ['goals', 'assists', 'points', 'plusMinus'],
+  goalie: ['gaa', 'savePctg'],
+} as const;
+
+export const PLAYER_METRICS = [...SNAPSHOT_CATEGORIES.skater, ...SNAPSHOT_CATEGORIES.goalie];
+export type PlayerMetric = typeof PLAYER_METRICS[number];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS standings_snapshots (
+    date TEXT NOT NULL,
+    team TEXT NOT NULL,
+    games_played INTEGER NOT NULL,
+    wins INTEGER NOT NULL,
+    losses INTEGER NOT NULL,
+    ot_losses INTEGER NOT NULL,
+    points INTEGER NOT NULL,
+    point_pctg REAL NOT NULL,
+    goals_for INTEGER NOT NULL,
+    goals_against INTEGER NOT NULL,
+    goal_diff INTEGER NOT NULL,
+    league_rank INTEGER NOT NULL,
+    conference_rank INTEGER NOT NULL,
+    division_rank INTEGER NOT NULL,
+    PRIMARY KEY (date, team)
+  );
+  CREATE TABLE IF NOT EXISTS leader_snapshots (
+    date TEXT NOT NULL,
+    category TEXT NOT NULL,
+    player_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    team TEXT NOT NULL,
+    rank INTEGER NOT NULL,
+    value REAL NOT NULL,
+    PRIMARY KEY (date, category, player_id)
+  );
+  CREATE INDEX IF NOT EXISTS leader_snapshots_player ON leader_snapshots (player_id, category, date);
+`;
+
+let database: Database | null | undefined;
+
+/** The snapshot database, or null when it cannot be opened (e.g. a read-only disk) */
+function store(): Database | null {
+  if (database !== undefined) return database;
+  try {
+    if (DB_PATH !== ':memory:') mkdirSync(dirname(DB_PATH), { recursive: true });
+    database = new Database(DB_PATH, { create: true });
+    database.exec('PRAGMA journal_mode = WAL;');
+    database.exec(SCHEMA);
+  } catch (error: any) {
+    console.warn('⚠️  Snapshot store unavailable, history is disabled:', error?.message ?? error);
+    database = null;
+  }
+  return database;
+}
+
+function writeStandings(db: Database, date: string, standings: StandingsTeam[]) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO standings_snapshots
+      (date, team, games_played, wins, losses, ot_losses, points, point_pctg, goals_for, goals_against, goal_diff,
+       league_rank, conference_rank, division_rank)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const t of standings) {
+    insert.run(
+      date, t.teamAbbrev.default, t.gamesPlayed, t.wins, t.losses, t.otLosses, t.points, t.pointPctg,
+      t.goalFor, t.goalAgainst, t.goalDifferential, t.leagueSequence, t.conferenceSequence, t.divisionSequence,
+    );
+  }
+}
+
+function writeLeaders(db: Database, date: string, category: string, leaders: Leader[]) {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO leader_snapshots (date, category, player_id, name, team, rank, value)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  leaders.forEach((p, i) => {
+    insert.run(date, category, p.id, `${p.firstName.default} ${p.lastName.default}`, p.teamAbbrev, i + 1, p.value);
+  });
+}
+
+/** Store today's standings and leaders, replacing any snapshot already taken today */
+export async function takeSnapshot(date = today()) {
+  const db = store();
+  if (!db) return null;
+  const [skaterPath, goaliePath] = await Promise.all([leadersEndpoint('skater', {}), leadersEndpoint('goalie', {})]);
+  const [standings, skaters, goalies] = await Promise.all([
+    fetchNHL('/standings/now', StandingsSchema),
+    fetchNHL(skaterPath, LeadersSchema),
+    fetchNHL(goaliePath, LeadersSchema),
+  ]);
+
+  db.transaction(() => {
+    writeStandings(db, date, standings.standings);
+    for (const category of SNAPSHOT_CATEGORIES.skater) writeLeaders(db, date, category, skaters[category] ?? []);
+    for (const category of SNAPSHOT_CATEGORIES.goalie) writeLeaders(db, date, category, goalies[category] ?? []);
+  })();
+  return { date, teams: standings.standings.length };
+}
+
+// Dated standings for the days before the first snapshot; days that fail are skipped
+async function backfillStandings(db: Database, days: number) {
+  for (let back = days; back >= 1; back--) {
+    const date = addDays(today(), -back);
+    try {
+      const { standings } = await fetchNHL(`/standings/${date}`, StandingsSchema);
+      db.transaction(() => writeStandings(db, date, standings))();
+    } catch (error: any) {
+      console.warn(`⚠️  Standings backfill for ${date} failed:`, error?.message ?? error);
+    }
+  }
+}
+
+function hasSnapshot(db: Database, date: string) {
+  return db.query('SELECT 1 FROM standings_snapshots WHERE date = ? LIMIT 1').get(date) !== null;
+}
+
+async function snapshotIfDue() {
+  const db = store();
+  if (!db) return;
+  try {
+    const empty = db.query('SELECT 1 FROM standings_snapshots LIMIT 1').get() === null;
+    if (empty && BACKFILL_DAYS > 0) await backfillStandings(db, BACKFILL_DAYS);
+    if (!hasSnapshot(db, today())) await takeSnapshot();
+  } catch (error: any) {
+    // Try again on the next check
+    console.warn('⚠️  Snapshot failed:', error?.message ?? error);
+  }
+}
+
+let timer: ReturnType<typeof setInterval> | undefined;
+
+/** Check hourly and take the day's snapshot once upstream answers */
+export function startSnapshotter() {
+  if (timer || !CHECK_INTERVAL_MS || !store()) return;
+  timer = setInterval(snapshotIfDue, CHECK_INTERVAL_MS);
+  snapshotIfDue();
+}
+
+// === Queries ===
+
+interface StandingsRow {
+  team: string;
+  points: number;
+  league_rank: number;
+  conference_rank: number;
+  division_rank: number;
+}
+
+/** The latest stored standings from before a date, keyed by team */
+export function previousStandings(before: string) {
+  const db = store();
+  if (!db) return null;
+  const latest = db.query<{ date: string }, [string]>('SELECT MAX(date) AS date FROM standings_snapshots WHERE date < ?').get(before);
+  if (!latest?.date) return null;
+  const rows = db.query<StandingsRow, [string]>(
+    'SELECT team, points, league_rank, conference_rank, division_rank FROM standings_snapshots WHERE date = ?',
+  ).all(latest.date);
+  return { date: latest.date, teams: new Map(rows.map((r) => [r.team, r])) };
+}
+
+/**
+ * Movement since an earlier snapshot. Rank changes are positive when the
+ * team climbed ("up 3 spots"), negative when it fell.
+ */
+export function rankChange(t: StandingsTeam, previous: ReturnType<typeof previousStandings>) {
+  const before = previous?.teams.get(t.teamAbbrev.default);
+  if (!previous || !before) return null;
+  return {
+    since: previous.date,
+    leagueRank: before.league_rank - t.leagueSequence,
+    conferenceRank: before.conference_rank - t.conferenceSequence,
+    divisionRank: before.division_rank - t.divisionSequence,
+    points: t.points - before.points,
+  };
+}
+
+export interface SeriesPoint {
+  date: string;
+  value: number;
+  rank: number | null;
+}
+
+/** One team metric per snapshot day, oldest first; rank is the league rank that day */
+export function teamSeries(team: string, metric: TeamMetric, from: string, to: string): SeriesPoint[] {
+  const db = store();
+  if (!db) return [];
+  return db.query<SeriesPoint, [string, string, string]>(`
+    SELECT date, ${TEAM_METRICS[metric]} AS value, league_rank AS rank
+    FROM standings_snapshots
+    WHERE team = ? AND date BETWEEN ? AND ?
+    ORDER BY date
+  `).all(team, from, to);
+}
+
+/**
+ * One leaderboard category for a player per snapshot day, oldest first.
+ * Days the player was off the stored leaderboard are missing.
+ */
+export function playerSeries(playerId: number, metric: PlayerMetric, from: string, to: string) {
+  const db = store();
+  if (!db) return { name: null, team: null, series: [] as SeriesPoint[] };
+  const rows = db.query<SeriesPoint & { name: string; team: string }, [number, string, string, string]>(`
+    SELECT date, value, rank, name, team
+    FROM leader_snapshots
+    WHERE player_id = ? AND category = ? AND date BETWEEN ? AND ?
+    ORDER BY date
+  `).all(playerId, metric, from, to);
+  const latest = rows.at(-1);
+  return {
+    name: latest?.name ?? null,
+    team: latest?.team ?? null,
+    series: rows.map(({ date, value, rank }) => ({ date, value, rank })),
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * Franchise registry: every current club with its names, alignment, colors,
+ * venue and earlier identities, plus alias and fuzzy name resolution.
+ *
+ * Earlier identities (ATL -> WPG, ARI -> UTA) resolve to today's franchise,
+ * and `abbrevInSeason` maps back to the abbreviation upstream used that
+ * season, so historical rosters and schedules still load.
+ */
+
+import { UnknownTeamError } from './errors';
+
+export interface FranchiseIdentity {
+  abbrev: string;
+  name: string;
+  firstSeason: number;
+  lastSeason: number;
+}
+
+export interface Franchise {
+  abbrev: string;
+  name: string;
+  location: string;
+  nickname: string;
+  conference: 'Eastern' | 'Western';
+  division: 'Atlantic' | 'Metropolitan' | 'Central' | 'Pacific';
+  colors: { primary: string; secondary: string };
+  venue: string;
+  firstSeason: number;
+  /** Earlier names and abbreviations, oldest first */
+  history: FranchiseIdentity[];
+  /** Nicknames and short forms beyond the name, location and abbreviation */
+  aliases: string[];
+}
+
+export const FRANCHISES: Franchise[] = [
+  // Atlantic
+  {
+    abbrev: 'BOS', name: 'Boston Bruins', location: 'Boston', nickname: 'Bruins',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#FFB81C', secondary: '#000000' },
+    venue: 'TD Garden', firstSeason: 19241925, history: [], aliases: [],
+  },
+  {
+    abbrev: 'BUF', name: 'Buffalo Sabres', location: 'Buffalo', nickname: 'Sabres',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#003087', secondary: '#FFB81C' },
+    venue: 'KeyBank Center', firstSeason: 19701971, history: [], aliases: [],
+  },
+  {
+    abbrev: 'DET', name: 'Detroit Red Wings', location: 'Detroit', nickname: 'Red Wings',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#CE1126', secondary: '#FFFFFF' },
+    venue: 'Little Caesars Arena', firstSeason: 19261927,
+    history: [
+      { abbrev: 'DCG', name: 'Detroit Cougars', firstSeason: 19261927, lastSeason: 19291930 },
+      { abbrev: 'DFL', name: 'Detroit Falcons', firstSeason: 19301931, lastSeason: 19311932 },
+    ],
+    aliases: ['wings'],
+  },
+  {
+    abbrev: 'FLA', name: 'Florida Panthers', location: 'Florida', nickname: 'Panthers',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#C8102E', secondary: '#041E42' },
+    venue: 'Amerant Bank Arena', firstSeason: 19931994, history: [], aliases: ['cats', 'sunrise'],
+  },
+  {
+    abbrev: 'MTL', name: 'Montréal Canadiens', location: 'Montréal', nickname: 'Canadiens',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#AF1E2D', secondary: '#192168' },
+    venue: 'Bell Centre', firstSeason: 19171918, history: [], aliases: ['habs', 'montrealcanadiens', 'canadians'],
+  },
+  {
+    abbrev: 'OTT', name: 'Ottawa Senators', location: 'Ottawa', nickname: 'Senators',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#C52032', secondary: '#000000' },
+    venue: 'Canadian Tire Centre', firstSeason: 19921993, history: [], aliases: ['sens'],
+  },
+  {
+    abbrev: 'TBL', name: 'Tampa Bay Lightning', location: 'Tampa Bay', nickname: 'Lightning',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#002868', secondary: '#FFFFFF' },
+    venue: 'Benchmark International Arena', firstSeason: 19921993, history: [], aliases: ['tampa', 'bolts', 'tb'],
+  },
+  {
+    abbrev: 'TOR', name: 'Toronto Maple Leafs', location: 'Toronto', nickname: 'Maple Leafs',
+    conference: 'Eastern', division: 'Atlantic', colors: { primary: '#00205B', secondary: '#FFFFFF' },
+    venue: 'Scotiabank Arena', firstSeason: 19171918,
+    history: [
+      { abbrev: 'TAN', name: 'Toronto Arenas', firstSeason: 19171918, lastSeason: 19181919 },
+      { abbrev: 'TSP', name: 'Toronto St. Patricks', firstSeason: 19191920, lastSeason: 19261927 },
+    ],
+    aliases: ['leafs'],
+  },
+  // Metropolitan
+  {
+    abbrev: 'CAR', name: 'Carolina Hurricanes', location: 'Carolina', nickname: 'Hurricanes',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#CE1126', secondary: '#000000' },
+    venue: 'Lenovo Center', firstSeason: 19791980,
+    history: [{ abbrev: 'HFD', name: 'Hartford Whalers', firstSeason: 19791980, lastSeason: 19961997 }],
+    aliases: ['canes', 'raleigh', 'whalers', 'hartford'],
+  },
+  {
+    abbrev: 'CBJ', name: 'Columbus Blue Jackets', location: 'Columbus', nickname: 'Blue Jackets',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#002654', secondary: '#CE1126' },
+    venue: 'Nationwide Arena', firstSeason: 20002001, history: [], aliases: ['jackets', 'cbus'],
+  },
+  {
+    abbrev: 'NJD', name: 'New Jersey Devils', location: 'New Jersey', nickname: 'Devils',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#CE1126', secondary: '#000000' },
+    venue: 'Prudential Center', firstSeason: 19741975,
+    history: [
+      { abbrev: 'KCS', name: 'Kansas City Scouts', firstSeason: 19741975, lastSeason: 19751976 },
+      { abbrev: 'CLR', name: 'Colorado Rockies', firstSeason: 19761977, lastSeason: 19811982 },
+    ],
+    aliases: ['nj', 'jersey'],
+  },
+  {
+    abbrev: 'NYI', name: 'New York Islanders', location: 'New York', nickname: 'Islanders',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#00539B', secondary: '#F47D30' },
+    venue: 'UBS Arena', firstSeason: 19721973, history: [], aliases: ['isles', 'nyislanders'],
+  },
+  {
+    abbrev: 'NYR', name: 'New York Rangers', location: 'New York', nickname: 'Rangers',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#0038A8', secondary: '#CE1126' },
+    venue: 'Madison Square Garden', firstSeason: 19261927, history: [], aliases: ['nyrangers', 'blueshirts'],
+  },
+  {
+    abbrev: 'PHI', name: 'Philadelphia Flyers', location: 'Philadelphia', nickname: 'Flyers',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#F74902', secondary: '#000000' },
+    venue: 'Xfinity Mobile Arena', firstSeason: 19671968, history: [], aliases: ['philly'],
+  },
+  {
+    abbrev: 'PIT', name: 'Pittsburgh Penguins', location: 'Pittsburgh', nickname: 'Penguins',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#000000', secondary: '#FCB514' },
+    venue: 'PPG Paints Arena', firstSeason: 19671968, history: [], aliases: ['pens'],
+  },
+  {
+    abbrev: 'WSH', name: 'Washington Capitals', location: 'Washington', nickname: 'Capitals',
+    conference: 'Eastern', division: 'Metropolitan', colors: { primary: '#C8102E', secondary: '#041E42' },
+    venue: 'Capital One Arena', firstSeason: 19741975, history: [], aliases: ['caps', 'was', 'dc'],
+  },
+  // Central
+  {
+    abbrev: 'CHI', name: 'Chicago Blackhawks', location: 'Chicago', nickname: 'Blackhawks',
+    conference: 'Western', division: 'Central', colors: { primary: '#CF0A2C', secondary: '#000000' },
+    venue: 'United Center', firstSeason: 19261927, history: [], aliases: ['hawks'],
+  },
+  {
+    abbrev: 'COL', name: 'Colorado Avalanche', location: 'Colorado', nickname: 'Avalanche',
+    conference: 'Western', division: 'Central', colors: { primary: '#6F263D', secondary: '#236192' },
+    venue: 'Ball Arena', firstSeason: 19791980,
+    history: [{ abbrev: 'QUE', name: 'Quebec Nordiques', firstSeason: 19791980, lastSeason: 19941995 }],
+    aliases: ['avs', 'denver', 'nordiques', 'quebec'],
+  },
+  {
+    abbrev: 'DAL', name: 'Dallas Stars', location: 'Dallas', nickname: 'Stars',
+    conference: 'Western', division: 'Central', colors: { primary: '#006847', secondary: '#8F8F8C' },
+    venue: 'American Airlines Center', firstSeason: 19671968,
+    history: [{ abbrev: 'MNS', name: 'Minnesota North Stars', firstSeason: 19671968, lastSeason: 19921993 }],
+    aliases: ['northstars'],
+  },
+  {
+    abbrev: 'MIN', name: 'Minnesota Wild', location: 'Minnesota', nickname: 'Wild',
+    conference: 'Western', division: 'Central', colors: { primary: '#154734', secondary: '#A6192E' },
+    venue: 'Grand Casino Arena', firstSeason: 20002001, history: [], aliases: ['stpaul'],
+  },
+  {
+    abbrev: 'NSH', name: 'Nashville Predators', location: 'Nashville', nickname: 'Predators',
+    conference: 'Western', division: 'Central', colors: { primary: '#FFB81C', secondary: '#041E42' },
+    venue: 'Bridgestone Arena', firstSeason: 19981999, history: [], aliases: ['preds'],
+  },
+  {
+    abbrev: 'STL', name: 'St. Louis Blues', location: 'St. Louis', nickname: 'Blues',
+    conference: 'Western', division: 'Central', colors: { primary: '#002F87', secondary: '#FCB514' },
+    venue: 'Enterprise Center', firstSeason: 19671968, history: [], aliases: ['saintlouis'],
+  },
+  {
+    abbrev: 'UTA', name: 'Utah Mammoth', location: 'Utah', nickname: 'Mammoth',
+    conference: 'Western', division: 'Central', colors: { primary: '#71AFE5', secondary: '#090909' },
+    venue: 'Delta Center', firstSeason: 19791980,
+    history: [
+      { abbrev: 'WIN', name: 'Winnipeg Jets (1979)', firstSeason: 19791980, lastSeason: 19951996 },
+      { abbrev: 'PHX', name: 'Phoenix Coyotes', firstSeason: 19961997, lastSeason: 20132014 },
+      { abbrev: 'ARI', name: 'Arizona Coyotes', firstSeason: 20142015, lastSeason: 20232024 },
+      { abbrev: 'UTA', name: 'Utah Hockey Club', firstSeason: 20242025, lastSeason: 20242025 },
+    ],
+    aliases: ['utahhc', 'saltlakecity', 'coyotes', 'yotes', 'arizona', 'phoenix'],
+  },
+  {
+    abbrev: 'WPG', name: 'Winnipeg Jets', location: 'Winnipeg', nickname: 'Jets',
+    conference: 'Western', division: 'Central', colors: { primary: '#041E42', secondary: '#004C97' },
+    venue: 'Canada Life Centre', firstSeason: 19992000,
+    history: [{ abbrev: 'ATL', name: 'Atlanta Thrashers', firstSeason: 19992000, lastSeason: 20102011 }],
+    aliases: ['thrashers'],
+  },
+  // Pacific
+  {
+    abbrev: 'ANA', name: 'Anaheim Ducks', location: 'Anaheim', nickname: 'Ducks',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#F47A38', secondary: '#B9975B' },
+    venue: 'Honda Center', firstSeason: 19931994,
+    history: [{ abbrev: 'ANA', name: 'Mighty Ducks of Anaheim', firstSeason: 19931994, lastSeason: 20052006 }],
+    aliases: ['mightyducks'],
+  },
+  {
+    abbrev: 'CGY', name: 'Calgary Flames', location: 'Calgary', nickname: 'Flames',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#C8102E', secondary: '#F1BE48' },
+    venue: 'Scotiabank Saddledome', firstSeason: 19721973,
+    history: [{ abbrev: 'AFM', name: 'Atlanta Flames', firstSeason: 19721973, lastSeason: 19791980 }],
+    aliases: ['cal'],
+  },
+  {
+    abbrev: 'EDM', name: 'Edmonton Oilers', location: 'Edmonton', nickname: 'Oilers',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#041E42', secondary: '#FF4C00' },
+    venue: 'Rogers Place', firstSeason: 19791980, history: [], aliases: ['oil'],
+  },
+  {
+    abbrev: 'LAK', name: 'Los Angeles Kings', location: 'Los Angeles', nickname: 'Kings',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#111111', secondary: '#A2AAAD' },
+    venue: 'Crypto.com Arena', firstSeason: 19671968, history: [], aliases: ['la', 'lakings'],
+  },
+  {
+    abbrev: 'SJS', name: 'San Jose Sharks', location: 'San Jose', nickname: 'Sharks',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#006D75', secondary: '#EA7200' },
+    venue: 'SAP Center', firstSeason: 19911992, history: [], aliases: ['sj'],
+  },
+  {
+    abbrev: 'SEA', name: 'Seattle Kraken', location: 'Seattle', nickname: 'Kraken',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#001628', secondary: '#99D9D9' },
+    venue: 'Climate Pledge Arena', firstSeason: 20212022, history: [], aliases: [],
+  },
+  {
+    abbrev: 'VAN', name: 'Vancouver Canucks', location: 'Vancouver', nickname: 'Canucks',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#00205B', secondary: '#00843D' },
+    venue: 'Rogers Arena', firstSeason: 19701971, history: [], aliases: ['nucks'],
+  },
+  {
+    abbrev: 'VGK', name: 'Vegas Golden Knights', location: 'Vegas', nickname: 'Golden Knights',
+    conference: 'Western', division: 'Pacific', colors: { primary: '#B4975A', secondary: '#333F42' },
+    venue: 'T-Mobile Arena', firstSeason: 20172018, history: [], aliases: ['knights', 'lasvegas'],
+  },
+];
+
+// Lowercase, strip accents, spaces and punctuation: "St. Louis" -> "stlouis"
+export function normalizeTeam(input: string) {
+  return input
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// Every exact-match key for a franchise, current and historical
+function keysFor(f: Franchise) {
+  return [
+    f.abbrev, f.name, f.nickname, f.location,
+    ...f.history.flatMap((h) => [h.abbrev, h.name]),
+    ...f.aliases,
+  ].map(normalizeTeam);
+}
+
+// Keys shared by more than one franchise ("newyork") are left out, so they
+// fall through to suggestions instead of silently picking one club
+const ALIASES = (() => {
+  const owners = new Map<string, Set<string>>();
+  for (const f of FRANCHISES) {
+    for (const key of keysFor(f)) owners.set(key, (owners.get(key) ?? new Set()).add(f.abbrev));
+  }
+  return new Map([...owners].filter(([, abbrevs]) => abbrevs.size === 1).map(([key, abbrevs]) => [key, [...abbrevs][0]]));
+})();
+
+const BY_ABBREV = new Map(FRANCHISES.map((f) => [f.abbrev, f]));
+
+// Every current franchise abbreviation, for league-wide roster sweeps
+export const TEAM_ABBREVS = FRANCHISES.map((f) => f.abbrev);
+
+export const getFranchise = (abbrev: string) => BY_ABBREV.get(abbrev);
+
+/** Abbreviation for a known team name or alias, without any fallback */
+export function lookupTeam(input: string): string | undefined {
+  return ALIASES.get(normalizeTeam(input));
+}
+
+function editDistance(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Franchises ranked by how closely any of their names match the input:
+ * prefix matches first, then by edit distance.
+ */
+export function suggestTeams(input: string, limit = 3) {
+  const query = normalizeTeam(input);
+  if (!query) return [];
+  const scored = FRANCHISES.map((f) => {
+    const best = Math.min(...keysFor(f).map((key) =>
+      key.startsWith(query) || (query.startsWith(key) && key.length >= 3) ? 0 : editDistance(query, key)));
+    return { abbrev: f.abbrev, distance: best };
+  });
+  return scored
+    .filter((s) => s.distance <= Math.max(2, Math.floor(query.length / 3)))
+    .sort((a, b) => a.distance - b.distance || a.abbrev.localeCompare(b.abbrev))
+    .slice(0, limit);
+}
+
+/**
+ * Abbreviation for a team name, alias, historical name or near miss
+ * ("Bruns"). Throws UnknownTeamError with suggestions when nothing, or more
+ * than one franchise, matches clearly.
+ */
+export function resolveTeam(input: string): string {
+  const exact = lookupTeam(input);
+  if (exact) return exact;
+
+  const suggestions = suggestTeams(input);
+  const [best, next] = suggestions;
+  if (best && best.distance <= 2 && (!next || next.distance > best.distance)) return best.abbrev;
+  throw new UnknownTeamError(input, suggestions.map((s) => getFranchise(s.abbrev)!.name));
+}
+
+/** The abbreviation upstream used for a franchise in a given season */
+export function abbrevInSeason(abbrev: string, season?: number) {
+  if (!season) return abbrev;
+  const identity = getFranchise(abbrev)?.history.find((h) => season >= h.firstSeason && season <= h.lastSeason);
+  return identity?.abbrev ?? abbrev;
+}
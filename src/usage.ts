@@ -0,0 +1,350 @@
+/**
+ * Usage metering for entrypoint calls, stored in an embedded SQLite
+ * database: who called which entrypoint, what it earned, how long it took
+ * and whether the NHL API failed after the caller paid.
+ *
+ * The same middleware enforces the optional limits - a per-caller rate
+ * limit on every entrypoint and a free-tier daily quota on `overview` - and
+ * `/admin/usage` reports calls and revenue by day and entrypoint to holders
+ * of ADMIN_TOKEN.
+ *
+ * Limits apply per client IP: the connection's address, or with
+ * TRUSTED_PROXY_HOPS set, the address that many proxies in from the right
+ * of X-Forwarded-For. Calls are recorded against the payer of a settled
+ * x402 payment (from the X-PAYMENT-RESPONSE the payments middleware sends
+ * back once it has verified and settled it), or the client IP when there is
+ * none; an unverified X-PAYMENT header never identifies anyone.
+ *
+ * A call the ask router forwards to one of its routes counts once against
+ * the limits, when the router takes it, and is recorded by the route.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { Context, Next } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { isAddress } from 'viem';
+import { z } from 'zod';
+import { hasEntrypoint, priceOf, toUsd } from './catalog';
+import { addDays, today } from './schedule';
+
+const DB_PATH = process.env.USAGE_DB ?? '.data/usage.sqlite';
+// Calls per caller per minute across all entrypoints; unset for no limit
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE ?? 0);
+// Free overview calls per caller per UTC day; unset for no quota
+const OVERVIEW_DAILY_QUOTA = Number(process.env.OVERVIEW_DAILY_QUOTA ?? 0);
+// Reverse proxies in front of the agent that append to X-Forwarded-For; 0 trusts no header
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 0);
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+const REPORT_DAYS = 30;
+
+// Error codes that mean the NHL API let the caller down, as opposed to a bad request
+const UPSTREAM_FAILURES = ['upstream_unavailable', 'malformed_payload', 'schema_drift'];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS invocations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    at TEXT NOT NULL,
+    day TEXT NOT NULL,
+    entrypoint TEXT NOT NULL,
+    caller TEXT NOT NULL,
+    paid INTEGER NOT NULL,
+    price INTEGER NOT NULL,
+    http_status INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    latency_ms INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS invocations_day ON invocations (day, entrypoint);
+  CREATE INDEX IF NOT EXISTS invocations_caller ON invocations (caller, entrypoint, day);
+`;
+
+let database: Database | null | undefined;
+
+/** The usage database, or null when it cannot be opened (e.g. a read-only disk) */
+function store(): Database | null {
+  if (database !== undefined) return database;
+  try {
+    if (DB_PATH !== ':memory:') mkdirSync(dirname(DB_PATH), { recursive: true });
+    database = new Database(DB_PATH, { create: true });
+    database.exec('PRAGMA journal_mode = WAL;');
+    database.exec(SCHEMA);
+  } catch (error: any) {
+    console.warn('⚠️  Usage store unavailable, metering and quotas are disabled:', error?.message ?? error);
+    database = null;
+  }
+  return database;
+}
+
+// === Callers ===
+
+const SettlementSchema = z.object({ success: z.literal(true), payer: z.string().refine((a) => isAddress(a)) });
+
+/** The payer of a settled x402 payment, from an `X-PAYMENT-RESPONSE` header (base64 JSON), if it has one */
+export function settledPayer(header: string | null) {
+  if (!header) return null;
+  try {
+    const settlement = SettlementSchema.safeParse(JSON.parse(atob(header)));
+    return settlement.success ? settlement.data.payer.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Requests the agent forwards to itself (ask to its routes), with the client address of the original
+const forwardedFrom = new WeakMap<Request, string>();
+// Callers' requests that were forwarded, and so are recorded by the route that answered them
+const forwarded = new WeakSet<Request>();
+
+/** A request the agent sends itself on a caller's behalf, metered as that caller */
+export function forwardedRequest(c: Context, url: URL, init: RequestInit) {
+  const request = new Request(url, init);
+  forwardedFrom.set(request, clientAddress(c));
+  forwarded.add(c.req.raw);
+  return request;
+}
+
+function connectionAddress(c: Context) {
+  try {
+    return getConnInfo(c).remote.address;
+  } catch {
+    // Not served by Bun (e.g. app.fetch called directly)
+    return undefined;
+  }
+}
+
+/** The client's IP: the connection's, unless trusted proxies say whose connection they forwarded */
+export function clientAddress(c: Context) {
+  const forwarded = forwardedFrom.get(c.req.raw);
+  if (forwarded) return forwarded;
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const hops = c.req.header('X-Forwarded-For')?.split(',').map((h) => h.trim()).filter(Boolean) ?? [];
+    // Entries left of the ones our proxies appended are the client's to forge
+    const address = hops[hops.length - TRUSTED_PROXY_HOPS];
+    if (address) return address;
+  }
+  return connectionAddress(c) ?? 'unknown';
+}
+
+// === Limits ===
+
+const RATE_WINDOW_MS = 60_000;
+const recentCalls = new Map<string, number[]>();
+
+/** Seconds until the caller may call again, or 0 when the call is allowed (and counted at `now`) */
+export function rateLimitWait(caller: string, limit = RATE_LIMIT_PER_MINUTE, now = Date.now()) {
+  if (!limit) return 0;
+  const calls = (recentCalls.get(caller) ?? []).filter((t) => now - t < RATE_WINDOW_MS);
+  if (calls.length >= limit) {
+    recentCalls.set(caller, calls);
+    return Math.ceil((calls[0] + RATE_WINDOW_MS - now) / 1000);
+  }
+  calls.push(now);
+  recentCalls.set(caller, calls);
+  // Drop callers that have gone quiet
+  if (recentCalls.size > 10_000) {
+    for (const [key, times] of recentCalls) if (now - times[times.length - 1] >= RATE_WINDOW_MS) recentCalls.delete(key);
+  }
+  return 0;
+}
+
+/** Take back a call counted at `at`, for one that turned out not to count (a 402 payment challenge) */
+export function uncountCall(caller: string, at: number) {
+  const calls = recentCalls.get(caller);
+  const index = calls?.lastIndexOf(at) ?? -1;
+  if (index >= 0) calls!.splice(index, 1);
+}
+
+/** Calls a caller has made to an entrypoint today that succeeded or are still running */
+function callsToday(db: Database, caller: string, entrypoint: string) {
+  const row = db.query<{ calls: number }, [string, string, string]>(
+    'SELECT COUNT(*) AS calls FROM invocations WHERE caller = ? AND entrypoint = ? AND day = ? AND http_status < 400',
+  ).get(caller, entrypoint, today());
+  return row?.calls ?? 0;
+}
+
+const secondsToMidnightUtc = () => {
+  const now = new Date();
+  return Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()) / 1000);
+};
+
+function limited(c: Context, code: 'rate_limited' | 'quota_exceeded', message: string, retryAfterSeconds: number) {
+  c.header('Retry-After', String(retryAfterSeconds));
+  return c.json({ error: { code, message, retryable: true, retryAfterSeconds } }, 429);
+}
+
+// === Metering ===
+
+// Entrypoint errors are in the output; middleware errors (limits, payment) at the top level
+const ErrorCodeBody = z.union([
+  z.object({ output: z.object({ error: z.object({ code: z.string() }) }) }),
+  z.object({ error: z.object({ code: z.string() }) }),
+]);
+
+// The error code in an entrypoint's JSON response, or 'ok'
+async function outcomeOf(res: Response) {
+  if (!res.headers.get('Content-Type')?.includes('application/json')) return res.ok ? 'ok' : `http_${res.status}`;
+  try {
+    const body = ErrorCodeBody.safeParse(await res.clone().json());
+    if (body.success) return 'output' in body.data ? body.data.output.error.code : body.data.error.code;
+  } catch {
+    // Unreadable bodies are recorded by HTTP status alone
+  }
+  return res.ok ? 'ok' : `http_${res.status}`;
+}
+
+/**
+ * Middleware for `/entrypoints/:key/*`: apply the client's limits, run the
+ * call, and record it. The call's row is written before it runs, so calls
+ * in flight hold their quota slot; a 402 payment challenge does not count
+ * toward the rate limit. A call counts as paid when its payment settled.
+ */
+export async function meterUsage(c: Context, next: Next) {
+  const key = c.req.param('key') ?? '';
+  if (!hasEntrypoint(key)) return next();
+  const db = store();
+  const client = `ip:${clientAddress(c)}`;
+
+  const started = Date.now();
+  // A forwarded call was counted when the router took it
+  const counted = !forwardedFrom.has(c.req.raw);
+  const wait = counted ? rateLimitWait(client, RATE_LIMIT_PER_MINUTE, started) : 0;
+  if (wait) return limited(c, 'rate_limited', `Rate limit of ${RATE_LIMIT_PER_MINUTE} calls per minute reached`, wait);
+  if (key === 'overview' && OVERVIEW_DAILY_QUOTA && db && callsToday(db, client, key) >= OVERVIEW_DAILY_QUOTA) {
+    uncountCall(client, started);
+    return limited(c, 'quota_exceeded', `Free tier allows ${OVERVIEW_DAILY_QUOTA} overview calls per day`, secondsToMidnightUtc());
+  }
+
+  // Checked and reserved with no await in between, so concurrent calls cannot share a slot
+  const id = db ? reserve(db, started, key, client) : null;
+  await next();
+  if (c.res.status === 402 && counted) uncountCall(client, started);
+  if (!db || id === null) return;
+  if (forwarded.has(c.req.raw)) return release(db, id);
+
+  const payer = settledPayer(c.res.headers.get('X-PAYMENT-RESPONSE'));
+  const paid = c.res.ok && payer !== null;
+  const price = paid ? priceOf(key) : 0;
+  try {
+    db.query(`
+      UPDATE invocations SET caller = ?, paid = ?, price = ?, http_status = ?, outcome = ?, latency_ms = ? WHERE id = ?
+    `).run(payer ?? client, paid ? 1 : 0, price, c.res.status, await outcomeOf(c.res), Date.now() - started, id);
+  } catch (error: any) {
+    console.warn('⚠️  Usage record failed:', error?.message ?? error);
+  }
+}
+
+// Drop a reserved row, for a call that another row records
+function release(db: Database, id: number) {
+  try {
+    db.query('DELETE FROM invocations WHERE id = ?').run(id);
+  } catch (error: any) {
+    console.warn('⚠️  Usage record failed:', error?.message ?? error);
+  }
+}
+
+// A row for a call about to run: status 0 and outcome 'pending' until it finishes
+function reserve(db: Database, started: number, key: string, caller: string) {
+  try {
+    return db.query<{ id: number }, [string, string, string, string]>(`
+      INSERT INTO invocations (at, day, entrypoint, caller, paid, price, http_status, outcome, latency_ms)
+      VALUES (?, ?, ?, ?, 0, 0, 0, 'pending', 0)
+      RETURNING id
+    `).get(new Date(started).toISOString(), today(), key, caller)?.id ?? null;
+  } catch (error: any) {
+    console.warn('⚠️  Usage record failed:', error?.message ?? error);
+    return null;
+  }
+}
+
+// === Reporting ===
+
+interface UsageRow {
+  calls: number;
+  paid_calls: number;
+  revenue: number;
+  upstream_failures: number;
+  paid_upstream_failures: number;
+  avg_latency_ms: number | null;
+}
+
+const FAILED = `outcome IN (${UPSTREAM_FAILURES.map((c) => `'${c}'`).join(', ')})`;
+const AGGREGATES = `
+  COUNT(*) AS calls,
+  SUM(paid) AS paid_calls,
+  SUM(price) AS revenue,
+  SUM(${FAILED}) AS upstream_failures,
+  SUM(paid AND ${FAILED}) AS paid_upstream_failures,
+  AVG(latency_ms) AS avg_latency_ms
+`;
+
+// Revenue is stored in micro-USD and reported in USD
+const summarize = (row: UsageRow) => ({
+  calls: row.calls,
+  paidCalls: row.paid_calls ?? 0,
+  revenue: toUsd(row.revenue ?? 0),
+  upstreamFailures: row.upstream_failures ?? 0,
+  upstreamFailuresAfterPayment: row.paid_upstream_failures ?? 0,
+  avgLatencyMs: row.avg_latency_ms === null ? null : Math.round(row.avg_latency_ms),
+});
+
+/** Calls, revenue and upstream failures between two days (inclusive) */
+export function usageReport(from: string, to: string) {
+  const db = store();
+  if (!db) return null;
+  const range = 'WHERE day BETWEEN ? AND ?';
+
+  const totals = db.query<UsageRow, [string, string]>(`SELECT ${AGGREGATES} FROM invocations ${range}`).get(from, to)!;
+  const byDay = db.query<UsageRow & { day: string }, [string, string]>(
+    `SELECT day, ${AGGREGATES} FROM invocations ${range} GROUP BY day ORDER BY day`,
+  ).all(from, to);
+  const byEntrypoint = db.query<UsageRow & { entrypoint: string }, [string, string]>(
+    `SELECT entrypoint, ${AGGREGATES} FROM invocations ${range} GROUP BY entrypoint ORDER BY SUM(price) DESC, COUNT(*) DESC`,
+  ).all(from, to);
+  const byDayAndEntrypoint = db.query<UsageRow & { day: string; entrypoint: string }, [string, string]>(
+    `SELECT day, entrypoint, ${AGGREGATES} FROM invocations ${range} GROUP BY day, entrypoint ORDER BY day, entrypoint`,
+  ).all(from, to);
+  const topCallers = db.query<UsageRow & { caller: string }, [string, string]>(
+    `SELECT caller, ${AGGREGATES} FROM invocations ${range} GROUP BY caller ORDER BY SUM(price) DESC, COUNT(*) DESC LIMIT 20`,
+  ).all(from, to);
+
+  return {
+    from,
+    to,
+    totals: summarize(totals),
+    byDay: byDay.map((r) => ({ day: r.day, ...summarize(r) })),
+    byEntrypoint: byEntrypoint.map((r) => ({ entrypoint: r.entrypoint, ...summarize(r) })),
+    byDayAndEntrypoint: byDayAndEntrypoint.map((r) => ({ day: r.day, entrypoint: r.entrypoint, ...summarize(r) })),
+    topCallers: topCallers.map((r) => ({ caller: r.caller, ...summarize(r) })),
+  };
+}
+
+// Compare in constant time so the token cannot be guessed byte by byte
+function tokenMatches(given: string, expected: string) {
+  if (given.length !== expected.length) return false;
+  let diff = 0;
+  for (let i = 0; i < given.length; i++) diff |= given.charCodeAt(i) ^ expected.charCodeAt(i);
+  return diff === 0;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** GET /admin/usage?from=YYYY-MM-DD&to=YYYY-MM-DD - requires `Authorization: Bearer <ADMIN_TOKEN>` */
+export function handleUsageReport(c: Context) {
+  // Without a configured token the route does not exist
+  if (!ADMIN_TOKEN) return c.json({ error: { code: 'not_found', message: 'Not found' } }, 404);
+  const token = c.req.header('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (!tokenMatches(token, ADMIN_TOKEN)) {
+    return c.json({ error: { code: 'unauthorized', message: 'A valid admin bearer token is required' } }, 401);
+  }
+
+  const to = c.req.query('to') ?? today();
+  const from = c.req.query('from') ?? addDays(to, -(REPORT_DAYS - 1));
+  if (!DAY.test(from) || !DAY.test(to) || from > to) {
+    return c.json({ error: { code: 'invalid_range', message: 'from and to must be YYYY-MM-DD days, from on or before to' } }, 400);
+  }
+
+  const report = usageReport(from, to);
+  if (!report) return c.json({ error: { code: 'unavailable', message: 'Usage store is unavailable' } }, 503);
+  return c.json(report);
+}
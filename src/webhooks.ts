@@ -0,0 +1,777 @@
+/**
+ * Webhook alerts. Paid subscriptions follow a team, player or game; one
+ * background poller diffs /score/now and /standings/now and POSTs every
+ * matching goal, final score, player milestone or playoff-position change
+ * to the subscriber's URL.
+ *
+ * Each payload is signed with HMAC-SHA256 over "<timestamp>.<body>" using
+ * the subscription's secret. Failed deliveries are retried with exponential
+ * backoff, and every delivery is kept in a short per-subscription log.
+ * Subscriptions and logs are kept in an embedded SQLite database, so they
+ * outlive a restart.
+ *
+ * Receivers must be public: a URL whose host resolves to a private,
+ * loopback or link-local address is refused at registration and before
+ * every delivery, and redirects are not followed. Plain http and loopback
+ * receivers are allowed only with WEBHOOK_ALLOW_LOCALHOST=true, for
+ * local development.
+ */
+
+import { Database } from 'bun:sqlite';
+import { lookup } from 'dns/promises';
+import { mkdirSync } from 'fs';
+import { isIP } from 'net';
+import { checkServerIdentity, type PeerCertificate } from 'tls';
+import { dirname } from 'path';
+import type { Context } from 'hono';
+import { z } from 'zod';
+import { InvalidInputError } from './errors';
+import { fetchNHL } from './nhl-api';
+import { ScoreSchema, StandingsSchema, type ScoreGame, type ScoreGoal } from './schemas';
+import { diffSnapshots, summarizeGame, type LiveEvent } from './live-scores';
+import { playoffPicture } from './playoffs';
+import { fetchPlayerLanding } from './players';
+import { gameTeams } from './matchup';
+import { resolveTeam } from './teams';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const DB_PATH = process.env.WEBHOOK_DB ?? '.data/webhooks.sqlite';
+const ALLOW_LOCALHOST = process.env.WEBHOOK_ALLOW_LOCALHOST === 'true';
+
+const SCORE_POLL_MS = Number(process.env.WEBHOOK_SCORE_POLL_MS ?? 15 * SECOND);
+const STANDINGS_POLL_MS = Number(process.env.WEBHOOK_STANDINGS_POLL_MS ?? 5 * MINUTE);
+const SUBSCRIPTION_TTL_MS = 7 * 24 * 60 * MINUTE;
+
+// Delivery tuning, overridable per deployment
+const DELIVERY_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS ?? 5 * SECOND);
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 5);
+const RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS ?? SECOND);
+const MAX_RETRY_DELAY_MS = MINUTE;
+const DELIVERY_LOG_SIZE = 50;
+
+// Season goal totals worth an alert
+const GOAL_MILESTONES = new Set([20, 30, 40, 50, 60, 70]);
+const HAT_TRICK = 3;
+
+export const WEBHOOK_EVENTS = ['goal', 'final', 'milestone', 'playoff-position'] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENTS[number];
+
+// Events about a team as a whole, which player subscriptions get for the player's club
+const TEAM_EVENTS = new Set<WebhookEventType>(['final', 'playoff-position']);
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+const isLocalHost = (host: string) => host === 'localhost' || host === '127.0.0.1' || host === '[::1]';
+
+export const WebhookUrlInput = z.string().url()
+  .refine((url) => {
+    const { protocol, hostname } = new URL(url);
+    return protocol === 'https:' || (protocol === 'http:' && ALLOW_LOCALHOST && isLocalHost(hostname));
+  }, { message: ALLOW_LOCALHOST ? 'Webhook URL must use https (plain http only for localhost)' : 'Webhook URL must use https' })
+  .describe('URL that receives event POSTs');
+
+// === Receiver addresses ===
+
+const ipv4ToInt = (address: string) => address.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+
+// This network, private, carrier-grade NAT, loopback, link-local, IETF
+// protocol assignments, benchmarking, multicast and reserved
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+];
+
+const inIpv4Range = (address: number, [base, bits]: [string, number]) =>
+  Math.floor(address / 2 ** (32 - bits)) === Math.floor(ipv4ToInt(base) / 2 ** (32 - bits));
+
+// Eight hextets, with a trailing dotted quad (::ffff:10.0.0.1) folded into the last two
+function ipv6Hextets(address: string) {
+  let text = address.replace(/%.*$/, '');
+  const quad = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const n = ipv4ToInt(quad[1]);
+    text = `${text.slice(0, -quad[1].length)}${Math.floor(n / 65536).toString(16)}:${(n % 65536).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const parse = (part?: string) => (part ? part.split(':').map((h) => parseInt(h, 16)) : []);
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...Array<number>(8 - left.length - right.length).fill(0), ...right];
+}
+
+// The IPv4 address an IPv6 one stands for: mapped (::ffff:0:0/96), compatible (::/96) or NAT64 (64:ff9b::/96)
+function embeddedIpv4(h: number[]) {
+  const mapped = h.slice(0, 5).every((x) => x === 0) && (h[5] === 0xffff || h[5] === 0);
+  const nat64 = h[0] === 0x64 && h[1] === 0xff9b && h.slice(2, 6).every((x) => x === 0);
+  return mapped || nat64 ? h[6] * 65536 + h[7] : null;
+}
+
+function isLoopback(address: string) {
+  if (isIP(address) === 4) return inIpv4Range(ipv4ToInt(address), ['127.0.0.0', 8]);
+  const h = ipv6Hextets(address);
+  const v4 = embeddedIpv4(h);
+  return v4 !== null && (v4 === 1 ? h[5] === 0 : inIpv4Range(v4, ['127.0.0.0', 8]));
+}
+
+/** Whether an address is on the public internet, and so fit to receive webhooks */
+export function isPublicAddress(address: string) {
+  if (isIP(address) === 4) return !BLOCKED_IPV4.some((range) => inIpv4Range(ipv4ToInt(address), range));
+  const h = ipv6Hextets(address);
+  const v4 = embeddedIpv4(h);
+  if (v4 !== null) return (h[5] === 0xffff || h[0] === 0x64) && !BLOCKED_IPV4.some((range) => inIpv4Range(v4, range));
+  // Unique local (fc00::/7), link-local (fe80::/10), site-local (fec0::/10) and multicast (ff00::/8)
+  return (h[0] & 0xfe00) !== 0xfc00 && (h[0] & 0xffc0) !== 0xfe80 && (h[0] & 0xffc0) !== 0xfec0 && (h[0] & 0xff00) !== 0xff00;
+}
+
+const receiverHost = (url: string) => new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+/** Every address a URL's host resolves to */
+async function resolveReceiver(url: string) {
+  const host = receiverHost(url);
+  return isIP(host) ? [host] : (await lookup(host, { all: true })).map(({ address }) => address);
+}
+
+/** The first of a receiver's addresses no webhook may reach, or null when all are public */
+function blockedOf(addresses: string[]) {
+  return addresses.find((address) => !isPublicAddress(address) && !(ALLOW_LOCALHOST && isLoopback(address))) ?? null;
+}
+
+/**
+ * The receiver URL with its host replaced by an address already checked, and
+ * the TLS options that still verify the certificate against the original host
+ */
+function pinnedReceiver(url: string, address: string) {
+  const pinned = new URL(url);
+  pinned.hostname = isIP(address) === 6 ? `[${address}]` : address;
+  const host = receiverHost(url);
+  const tls = isIP(host) ? undefined : {
+    serverName: host,
+    checkServerIdentity: (_address: string, cert: PeerCertificate) => checkServerIdentity(host, cert),
+  };
+  return { url: pinned, tls };
+}
+
+/** Refuse a receiver URL that does not resolve, or resolves to a private, loopback or link-local address */
+export async function checkWebhookUrl(url: string) {
+  let blocked: string | null;
+  try {
+    blocked = blockedOf(await resolveReceiver(url));
+  } catch {
+    throw new InvalidInputError('webhook-url', `Webhook host ${new URL(url).hostname} does not resolve`);
+  }
+  if (blocked) {
+    throw new InvalidInputError('webhook-url', `Webhook URL resolves to ${blocked}, which is not a public address`);
+  }
+}
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  /** What the event is about, for matching against subscription scopes */
+  gameId: number | null;
+  teams: string[];
+  playerIds: number[];
+  data: Record<string, unknown>;
+  at: string;
+}
+
+function toEvent(type: WebhookEventType, about: { gameId?: number; teams: string[]; playerIds?: number[] }, data: Record<string, unknown>): WebhookEvent {
+  return {
+    type,
+    gameId: about.gameId ?? null,
+    teams: about.teams,
+    playerIds: about.playerIds ?? [],
+    data,
+    at: new Date().toISOString(),
+  };
+}
+
+// === Score and standings diffs ===
+
+function goalEvent(game: ScoreGame, goal: ScoreGoal) {
+  return toEvent('goal', {
+    gameId: game.id,
+    teams: [game.homeTeam.abbrev, game.awayTeam.abbrev],
+    playerIds: [goal.playerId, ...goal.assists.map((a) => a.playerId)],
+  }, {
+    ...summarizeGame(game),
+    team: goal.teamAbbrev,
+    scorer: { id: goal.playerId, name: goal.name.default, goalsToDate: goal.goalsToDate ?? null },
+    assists: goal.assists.map((a) => ({ id: a.playerId, name: a.name.default, assistsToDate: a.assistsToDate ?? null })),
+    goalPeriod: goal.period ?? null,
+    timeInPeriod: goal.timeInPeriod ?? null,
+    strength: goal.strength ?? null,
+  });
+}
+
+// Hat tricks, and round-number season goal totals
+function milestoneEvents(game: ScoreGame, goal: ScoreGoal, gameGoalsSoFar: ScoreGoal[]) {
+  const milestones: { milestone: string; value: number; description: string }[] = [];
+  if (goal.goalsToDate !== undefined && GOAL_MILESTONES.has(goal.goalsToDate)) {
+    milestones.push({ milestone: 'season-goals', value: goal.goalsToDate, description: `${goal.goalsToDate}th goal of the season` });
+  }
+  if (gameGoalsSoFar.filter((g) => g.playerId === goal.playerId).length === HAT_TRICK) {
+    milestones.push({ milestone: 'hat-trick', value: HAT_TRICK, description: 'Hat trick' });
+  }
+  return milestones.map((m) => toEvent('milestone', { gameId: game.id, teams: [goal.teamAbbrev], playerIds: [goal.playerId] }, {
+    ...m,
+    player: { id: goal.playerId, name: goal.name.default, team: goal.teamAbbrev },
+    gameId: game.id,
+    opponent: goal.teamAbbrev === game.homeTeam.abbrev ? game.awayTeam.abbrev : game.homeTeam.abbrev,
+  }));
+}
+
+// A score-only goal, for games upstream lists without scoring plays
+function scoreOnlyGoal(event: LiveEvent) {
+  const { type, at, ...data } = event;
+  return toEvent('goal', { gameId: event.gameId, teams: [event.home, event.away] }, data);
+}
+
+/** Goal, milestone and final events implied by moving from one /score/now snapshot to the next */
+export function diffScores(previous: Map<number, ScoreGame>, games: ScoreGame[]): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  const live = diffSnapshots(previous, games);
+
+  for (const game of games) {
+    const before = previous.get(game.id);
+    if (!before) continue;
+    if (!game.goals) {
+      events.push(...live.filter((e) => e.gameId === game.id && e.type === 'goal').map(scoreOnlyGoal));
+      continue;
+    }
+    const seen = before.goals?.length ?? 0;
+    game.goals.slice(seen).forEach((goal, i) => {
+      events.push(goalEvent(game, goal));
+      events.push(...milestoneEvents(game, goal, game.goals!.slice(0, seen + i + 1)));
+    });
+  }
+
+  for (const e of live.filter((e) => e.type === 'final')) {
+    const { type, at, ...data } = e;
+    events.push(toEvent('final', { gameId: e.gameId, teams: [e.home, e.away] }, data));
+  }
+  return events;
+}
+
+export interface PlayoffPosition {
+  teamName: string;
+  /** Division seed ("A1") or wildcard ("WC2"), null when outside the playoffs */
+  seed: string | null;
+  clinched: boolean;
+  eliminated: boolean;
+}
+
+export async function playoffPositions(): Promise<Map<string, PlayoffPosition>> {
+  const { standings } = await fetchNHL('/standings/now', StandingsSchema);
+  const positions = new Map<string, PlayoffPosition>();
+  for (const conference of await playoffPicture(standings)) {
+    const teams = [...conference.divisions.flatMap((d) => d.leaders), ...conference.wildcards, ...conference.outside];
+    for (const t of teams) {
+      positions.set(t.team, { teamName: t.teamName, seed: t.seed, clinched: t.clinched, eliminated: t.eliminated });
+    }
+  }
+  return positions;
+}
+
+function positionChange(before: PlayoffPosition, after: PlayoffPosition) {
+  if (after.clinched && !before.clinched) return 'clinched';
+  if (after.eliminated && !before.eliminated) return 'eliminated';
+  if (before.seed === after.seed) return null;
+  if (before.seed === null) return 'moved-in';
+  if (after.seed === null) return 'moved-out';
+  return 'reseeded';
+}
+
+/** A playoff-position event for every team whose seed, clinch or elimination changed */
+export function diffPlayoffPositions(previous: Map<string, PlayoffPosition>, positions: Map<string, PlayoffPosition>): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  for (const [team, after] of positions) {
+    const before = previous.get(team);
+    const change = before && positionChange(before, after);
+    if (!change) continue;
+    events.push(toEvent('playoff-position', { teams: [team] }, {
+      team,
+      teamName: after.teamName,
+      change,
+      from: before.seed,
+      to: after.seed,
+      clinched: after.clinched,
+      eliminated: after.eliminated,
+    }));
+  }
+  return events;
+}
+
+/**
+ * Polls scores and standings only while any webhook is registered: each
+ * tick first asks whether subscriptions remain, and the poller stops itself
+ * once none do. Scores go through the shared fetchNHL cache, so this and
+ * the live-score stream cost one upstream request between them.
+ */
+export class WebhookPoller {
+  private scores = new Map<number, ScoreGame>();
+  private positions = new Map<string, PlayoffPosition>();
+  private timers: ReturnType<typeof setInterval>[] = [];
+
+  constructor(
+    private emit: (events: WebhookEvent[]) => void,
+    private hasSubscribers: () => boolean,
+    private loadScores: () => Promise<ScoreGame[]>,
+    private loadPositions: () => Promise<Map<string, PlayoffPosition>>,
+    private intervals = { scoresMs: SCORE_POLL_MS, standingsMs: STANDINGS_POLL_MS },
+  ) {}
+
+  get running() {
+    return this.timers.length > 0;
+  }
+
+  start() {
+    if (this.running) return;
+    this.timers = [
+      setInterval(() => this.pollScores(), this.intervals.scoresMs),
+      setInterval(() => this.pollStandings(), this.intervals.standingsMs),
+    ];
+    this.pollScores();
+    this.pollStandings();
+  }
+
+  stop() {
+    for (const timer of this.timers) clearInterval(timer);
+    this.timers = [];
+    // A later start diffs against fresh snapshots, not ones from hours ago
+    this.scores = new Map();
+    this.positions = new Map();
+  }
+
+  // False, and stopped, when the last subscription has gone
+  private active() {
+    if (this.hasSubscribers()) return true;
+    this.stop();
+    return false;
+  }
+
+  async pollScores() {
+    if (!this.active()) return;
+    try {
+      const games = await this.loadScores();
+      const events = this.scores.size > 0 ? diffScores(this.scores, games) : [];
+      this.scores = new Map(games.map((g) => [g.id, g]));
+      if (events.length) this.emit(events);
+    } catch (error: any) {
+      console.warn('⚠️  Webhook score poll failed:', error?.message ?? error);
+    }
+  }
+
+  async pollStandings() {
+    if (!this.active()) return;
+    try {
+      const positions = await this.loadPositions();
+      const events = this.positions.size > 0 ? diffPlayoffPositions(this.positions, positions) : [];
+      this.positions = positions;
+      if (events.length) this.emit(events);
+    } catch (error: any) {
+      console.warn('⚠️  Webhook standings poll failed:', error?.message ?? error);
+    }
+  }
+}
+
+// === Subscriptions: paid once via the webhooks entrypoint ===
+
+export interface WebhookScope {
+  type: 'team' | 'player' | 'game';
+  team: string | null;
+  playerId: number | null;
+  gameId: number | null;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  scope: WebhookScope;
+  events: WebhookEventType[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface DeliveryRecord {
+  id: string;
+  event: WebhookEventType;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  lastAttemptAt: string | null;
+}
+
+const subscriptions = new Map<string, WebhookSubscription>();
+const deliveryLogs = new Map<string, DeliveryRecord[]>();
+
+// === Persistence: every change is written through, and read back by startWebhooks ===
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    scope TEXT NOT NULL,
+    events TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    subscription_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    last_attempt_at TEXT
+  );
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at);
+`;
+
+let database: Database | null | undefined;
+
+/** The webhook database, or null when it cannot be opened (e.g. a read-only disk) */
+function store(): Database | null {
+  if (database !== undefined) return database;
+  try {
+    if (DB_PATH !== ':memory:') mkdirSync(dirname(DB_PATH), { recursive: true });
+    database = new Database(DB_PATH, { create: true });
+    database.exec('PRAGMA journal_mode = WAL;');
+    database.exec(SCHEMA);
+  } catch (error: any) {
+    console.warn('⚠️  Webhook store unavailable, subscriptions will not survive a restart:', error?.message ?? error);
+    database = null;
+  }
+  return database;
+}
+
+// Writes that fail are logged; the in-memory subscription keeps working
+function persist(what: string, write: (db: Database) => void) {
+  const db = store();
+  if (!db) return;
+  try {
+    write(db);
+  } catch (error: any) {
+    console.warn(`⚠️  Webhook ${what} not saved:`, error?.message ?? error);
+  }
+}
+
+function saveSubscription(sub: WebhookSubscription) {
+  persist('subscription', (db) => db.query(`
+    INSERT OR REPLACE INTO webhook_subscriptions (id, url, secret, scope, events, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(sub.id, sub.url, sub.secret, JSON.stringify(sub.scope), JSON.stringify(sub.events), sub.createdAt, sub.expiresAt));
+}
+
+function saveDelivery(subscriptionId: string, record: DeliveryRecord) {
+  // A delivery that outlives its subscription is not written back
+  if (!subscriptions.has(subscriptionId)) return;
+  persist('delivery', (db) => {
+    db.query(`
+      INSERT OR REPLACE INTO webhook_deliveries
+        (id, subscription_id, event, status, attempts, response_status, error, created_at, last_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(record.id, subscriptionId, record.event, record.status, record.attempts, record.responseStatus, record.error,
+      record.createdAt, record.lastAttemptAt);
+    db.query(`
+      DELETE FROM webhook_deliveries WHERE subscription_id = ? AND id NOT IN (
+        SELECT id FROM webhook_deliveries WHERE subscription_id = ? ORDER BY created_at DESC LIMIT ?
+      )
+    `).run(subscriptionId, subscriptionId, DELIVERY_LOG_SIZE);
+  });
+}
+
+function forgetSubscription(id: string) {
+  subscriptions.delete(id);
+  deliveryLogs.delete(id);
+  persist('removal', (db) => {
+    db.query('DELETE FROM webhook_subscriptions WHERE id = ?').run(id);
+    db.query('DELETE FROM webhook_deliveries WHERE subscription_id = ?').run(id);
+  });
+}
+
+interface SubscriptionRow {
+  id: string;
+  url: string;
+  secret: string;
+  scope: string;
+  events: string;
+  created_at: number;
+  expires_at: number;
+}
+
+interface DeliveryRow {
+  id: string;
+  event: WebhookEventType;
+  status: DeliveryRecord['status'];
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+}
+
+/**
+ * Restore saved subscriptions and their delivery logs, and resume polling
+ * if any are still live. Deliveries cut off by the restart are marked failed.
+ */
+export function startWebhooks() {
+  const db = store();
+  if (!db) return;
+  const rows = db.query<SubscriptionRow, []>('SELECT * FROM webhook_subscriptions ORDER BY created_at').all();
+  for (const row of rows) {
+    subscriptions.set(row.id, {
+      id: row.id,
+      url: row.url,
+      secret: row.secret,
+      scope: JSON.parse(row.scope),
+      events: JSON.parse(row.events),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    });
+    const deliveries = db.query<DeliveryRow, [string]>(
+      'SELECT * FROM webhook_deliveries WHERE subscription_id = ? ORDER BY created_at',
+    ).all(row.id);
+    deliveryLogs.set(row.id, deliveries.map((d) => ({
+      id: d.id,
+      event: d.event,
+      status: d.status === 'pending' ? 'failed' : d.status,
+      attempts: d.attempts,
+      responseStatus: d.response_status,
+      error: d.status === 'pending' ? 'Interrupted by a restart' : d.error,
+      createdAt: d.created_at,
+      lastAttemptAt: d.last_attempt_at,
+    })));
+  }
+  pruneSubscriptions();
+  if (subscriptions.size > 0) webhookPoller.start();
+}
+
+/**
+ * The team, player or game a subscription follows. A player's current club
+ * is looked up so its final scores and playoff moves reach the subscriber.
+ */
+export async function resolveScope(target: { team?: string; playerId?: number; gameId?: number }): Promise<WebhookScope> {
+  if (target.playerId !== undefined) {
+    const landing = await fetchPlayerLanding(target.playerId);
+    return { type: 'player', team: landing.currentTeamAbbrev ?? null, playerId: landing.playerId, gameId: null };
+  }
+  if (target.gameId !== undefined) {
+    await gameTeams(target.gameId);
+    return { type: 'game', team: null, playerId: null, gameId: target.gameId };
+  }
+  return { type: 'team', team: resolveTeam(target.team!), playerId: null, gameId: null };
+}
+
+function matches(sub: WebhookSubscription, event: WebhookEvent) {
+  if (!sub.events.includes(event.type)) return false;
+  const { scope } = sub;
+  switch (scope.type) {
+    case 'team':
+      return event.teams.includes(scope.team!);
+    case 'player':
+      return TEAM_EVENTS.has(event.type)
+        ? scope.team !== null && event.teams.includes(scope.team)
+        : event.playerIds.includes(scope.playerId!);
+    case 'game':
+      return event.gameId === scope.gameId;
+  }
+}
+
+function pruneSubscriptions(now = Date.now()) {
+  for (const [id, sub] of subscriptions) {
+    if (sub.expiresAt <= now) forgetSubscription(id);
+  }
+  if (subscriptions.size === 0) webhookPoller.stop();
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  [...new Uint8Array(bytes)].map((b) => b.toString(16).padStart(2, '0')).join('');
+
+const encoder = new TextEncoder();
+
+/** Hex HMAC-SHA256 of "<timestamp>.<body>", as sent in the signature header */
+export async function sign(secret: string, timestamp: string, body: string) {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Exponential backoff with jitter, honouring Retry-After when the receiver sends one
+function retryDelay(attempt: number, retryAfter: string | null) {
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  if (Number.isFinite(seconds)) return Math.min(seconds * SECOND, MAX_RETRY_DELAY_MS);
+  return Math.min(RETRY_BASE_MS * 2 ** attempt + Math.random() * RETRY_BASE_MS, MAX_RETRY_DELAY_MS);
+}
+
+function logDelivery(subscriptionId: string, record: DeliveryRecord) {
+  const log = deliveryLogs.get(subscriptionId) ?? [];
+  log.push(record);
+  if (log.length > DELIVERY_LOG_SIZE) log.shift();
+  deliveryLogs.set(subscriptionId, log);
+  saveDelivery(subscriptionId, record);
+}
+
+/** POST one event to one subscriber, retrying until it lands or attempts run out */
+export async function deliver(sub: WebhookSubscription, event: WebhookEvent): Promise<DeliveryRecord> {
+  const record: DeliveryRecord = {
+    id: crypto.randomUUID(),
+    event: event.type,
+    status: 'pending',
+    attempts: 0,
+    responseStatus: null,
+    error: null,
+    createdAt: new Date().toISOString(),
+    lastAttemptAt: null,
+  };
+  logDelivery(sub.id, record);
+  const body = JSON.stringify({ id: record.id, subscriptionId: sub.id, type: event.type, at: event.at, data: event.data });
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    if (!subscriptions.has(sub.id)) {
+      record.error = 'Subscription removed before delivery';
+      break;
+    }
+    record.attempts++;
+    record.lastAttemptAt = new Date().toISOString();
+    // Signed per attempt, so receivers can reject stale timestamps as replays
+    const timestamp = String(Math.floor(Date.now() / SECOND));
+    let retryAfter: string | null = null;
+    try {
+      // Re-resolved per attempt, so a host that later points inside the network is caught, and
+      // connected to at the address checked, so it cannot re-resolve between the check and the request
+      const addresses = await resolveReceiver(sub.url);
+      const blocked = blockedOf(addresses);
+      if (blocked) {
+        record.error = `Receiver resolves to ${blocked}, which is not a public address`;
+        break;
+      }
+      const receiver = pinnedReceiver(sub.url, addresses[0]);
+      const response = await fetch(receiver.url, {
+        method: 'POST',
+        headers: {
+          Host: new URL(sub.url).host,
+          'Content-Type': 'application/json',
+          'User-Agent': 'NHLStatsAgent-Webhooks/1.0',
+          'X-Webhook-Id': record.id,
+          'X-Webhook-Event': event.type,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: `sha256=${await sign(sub.secret, timestamp, body)}`,
+        },
+        body,
+        // A redirect could point anywhere, including inside the network; it counts as a failed delivery
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        tls: receiver.tls,
+      });
+      record.responseStatus = response.status;
+      if (response.ok) {
+        record.status = 'delivered';
+        record.error = null;
+        saveDelivery(sub.id, record);
+        return record;
+      }
+      record.error = `Receiver responded ${response.status}`;
+      if (!isRetryableStatus(response.status)) break;
+      retryAfter = response.headers.get('retry-after');
+    } catch (error: any) {
+      record.error = error?.name === 'TimeoutError'
+        ? `Receiver timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : `Receiver unreachable: ${error?.message ?? error}`;
+    }
+    saveDelivery(sub.id, record);
+    if (attempt < MAX_ATTEMPTS - 1) await sleep(retryDelay(attempt, retryAfter));
+  }
+
+  record.status = 'failed';
+  saveDelivery(sub.id, record);
+  return record;
+}
+
+function dispatch(events: WebhookEvent[]) {
+  pruneSubscriptions();
+  for (const event of events) {
+    for (const sub of subscriptions.values()) {
+      if (matches(sub, event)) void deliver(sub, event);
+    }
+  }
+}
+
+export const webhookPoller = new WebhookPoller(
+  dispatch,
+  () => {
+    pruneSubscriptions();
+    return subscriptions.size > 0;
+  },
+  async () => (await fetchNHL('/score/now', ScoreSchema)).games,
+  playoffPositions,
+);
+
+export async function createWebhook(options: { url: string; scope: WebhookScope; events: WebhookEventType[]; secret?: string }): Promise<WebhookSubscription> {
+  await checkWebhookUrl(options.url);
+  pruneSubscriptions();
+  const now = Date.now();
+  const subscription: WebhookSubscription = {
+    id: crypto.randomUUID(),
+    url: options.url,
+    secret: options.secret ?? `whsec_${toHex(crypto.getRandomValues(new Uint8Array(24)))}`,
+    scope: options.scope,
+    events: [...new Set(options.events)],
+    createdAt: now,
+    expiresAt: now + SUBSCRIPTION_TTL_MS,
+  };
+  subscriptions.set(subscription.id, subscription);
+  saveSubscription(subscription);
+  webhookPoller.start();
+  return subscription;
+}
+
+/** Stop deliveries for a subscription and drop its log */
+export function deleteWebhook(id: string) {
+  forgetSubscription(id);
+  pruneSubscriptions();
+}
+
+// Everything about a subscription except its secret
+function describe(sub: WebhookSubscription) {
+  return {
+    subscriptionId: sub.id,
+    url: sub.url,
+    scope: sub.scope,
+    events: sub.events,
+    expiresAt: new Date(sub.expiresAt).toISOString(),
+  };
+}
+
+function findSubscription(c: Context) {
+  const sub = subscriptions.get(c.req.param('subscriptionId') ?? '');
+  return sub && sub.expiresAt > Date.now() ? sub : null;
+}
+
+const notFound = (c: Context) => c.json({ error: { code: 'not_found', message: 'Unknown or expired webhook subscription' } }, 404);
+
+/** GET /webhooks/:subscriptionId - subscription details and recent deliveries */
+export function handleWebhookStatus(c: Context) {
+  const sub = findSubscription(c);
+  if (!sub) return notFound(c);
+  return c.json({ ...describe(sub), deliveries: [...(deliveryLogs.get(sub.id) ?? [])].reverse() });
+}
+
+/** DELETE /webhooks/:subscriptionId - stop deliveries for a subscription */
+export function handleWebhookDelete(c: Context) {
+  const sub = findSubscription(c);
+  if (!sub) return notFound(c);
+  deleteWebhook(sub.id);
+  return c.json({ subscriptionId: sub.id, deleted: true });
+}
@@ -0,0 +1,78 @@
+/**
+ * The agent as the tests see it: the @lucid-agents runtime is replaced by a
+ * small stand-in that mounts each entrypoint at POST /entrypoints/{key}/invoke,
+ * validates `{ input }` with the entrypoint's schema, runs its handler and
+ * checks what it returns against the declared output schema (a mismatch
+ * answers 500, so every test that expects 200 also checks the contract).
+ * Payments are stubbed - a priced entrypoint answers 402 until a request
+ * carries an X-PAYMENT header, any header is accepted, and a paid answer
+ * carries an X-PAYMENT-RESPONSE settlement from STUB_PAYER.
+ *
+ * The environment (fixture replay, in-memory stores) comes from setup.ts.
+ */
+
+import { mock } from 'bun:test';
+import { Hono } from 'hono';
+import type { z } from 'zod';
+
+interface MountedEntrypoint {
+  key: string;
+  input: z.ZodType;
+  output?: z.ZodType;
+  price?: { amount: number };
+  handler: (ctx: { input: unknown }) => Promise<{ output: unknown }>;
+}
+
+export const STUB_PAYER = '0x00000000000000000000000000000000000000aa';
+
+/** Entrypoints as the stand-in runtime mounted them, by key */
+export const mounted = new Map<string, MountedEntrypoint>();
+
+function createAgentApp() {
+  const app = new Hono();
+  const addEntrypoint = (definition: MountedEntrypoint) => {
+    mounted.set(definition.key, definition);
+    app.post(`/entrypoints/${definition.key}/invoke`, async (c) => {
+      if (definition.price?.amount && !c.req.header('X-PAYMENT')) {
+        return c.json({ error: 'Payment required', price: definition.price }, 402);
+      }
+      const body: unknown = await c.req.json().catch(() => null);
+      const input = await definition.input.safeParseAsync(
+        typeof body === 'object' && body !== null && 'input' in body ? body.input : undefined,
+      );
+      if (!input.success) return c.json({ error: 'Invalid input', issues: input.error.issues }, 400);
+      const result = await definition.handler({ input: input.data });
+      const output = definition.output?.safeParse(result.output);
+      if (output && !output.success) return c.json({ error: 'Invalid output', issues: output.error.issues }, 500);
+      if (definition.price?.amount) {
+        c.header('X-PAYMENT-RESPONSE', btoa(JSON.stringify({ success: true, transaction: '0x01', network: 'base', payer: STUB_PAYER })));
+      }
+      return c.json(result);
+    });
+  };
+  return { app, addEntrypoint };
+}
+
+// The agent builder is chained (`createAgent(...).use(...).build()`); the stand-in ignores its extensions
+const builder = { use: () => builder, build: async () => ({}) };
+const extension = () => ({});
+
+mock.module('@lucid-agents/core', () => ({ createAgent: () => builder }));
+mock.module('@lucid-agents/http', () => ({ http: extension }));
+mock.module('@lucid-agents/hono', () => ({ createAgentApp: async () => createAgentApp() }));
+mock.module('@lucid-agents/payments', () => ({ payments: extension, paymentsFromEnv: extension }));
+mock.module('@lucid-agents/wallet', () => ({ wallets: extension, walletsFromEnv: extension }));
+mock.module('@lucid-agents/identity', () => ({ identity: extension, identityFromEnv: extension }));
+
+const { default: server } = await import('../src/index');
+
+/** POST an entrypoint invocation through the full server, paid unless told otherwise */
+export function invoke(key: string, input: unknown, { paid = true } = {}) {
+  return server.fetch(new Request(`http://agent.test/entrypoints/${key}/invoke`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(paid ? { 'X-PAYMENT': 'stub' } : {}) },
+    body: JSON.stringify({ input }),
+  }));
+}
+
+export const get = (path: string) => server.fetch(new Request(`http://agent.test${path}`));
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { get, invoke, mounted } from './agent';
+import { toUsd } from '../src/catalog';
+
+interface Capability {
+  name: string;
+  description: string;
+  price: number;
+  maxPrice?: number;
+}
+
+// The ask router is served outside the agent app and quoted from its routes' prices
+const ASK_ROUTES = [...mounted.keys()].filter((key) => key.startsWith('ask-'));
+const routePrices = ASK_ROUTES.map((key) => toUsd(mounted.get(key)!.price!.amount));
+const catalogKeys = () => [...mounted.keys(), 'ask'].sort();
+const priceOf = (key: string) => key === 'ask' ? Math.min(...routePrices) : toUsd(mounted.get(key)?.price?.amount ?? 0);
+
+describe('catalog', () => {
+  test('agent metadata lists every entrypoint and the ask router at its price', async () => {
+    const { capabilities } = await (await get('/.well-known/agent-metadata.json')).json() as { capabilities: Capability[] };
+    expect(capabilities.map((c) => c.name).sort()).toEqual(catalogKeys());
+    for (const c of capabilities) {
+      expect(c.price).toBe(priceOf(c.name));
+      expect(c.description.length).toBeGreaterThan(0);
+    }
+    expect(capabilities.find((c) => c.name === 'ask')!.maxPrice).toBe(Math.max(...routePrices));
+  });
+
+  test('OpenAPI describes every entrypoint and the ask router, and nothing else', async () => {
+    const { paths } = await (await get('/openapi.json')).json() as { paths: Record<string, { post: { 'x-price': { amount: number } } }> };
+    expect(Object.keys(paths).sort()).toEqual(catalogKeys().map((key) => `/entrypoints/${key}/invoke`).sort());
+    for (const key of catalogKeys()) {
+      expect(paths[`/entrypoints/${key}/invoke`].post['x-price'].amount).toBe(priceOf(key));
+    }
+  });
+
+  test('every published path is served', async () => {
+    const { paths } = await (await get('/openapi.json')).json() as { paths: Record<string, unknown> };
+    for (const path of Object.keys(paths)) {
+      const key = path.split('/')[2];
+      expect((await invoke(key, {}, { paid: false })).status).not.toBe(404);
+    }
+  });
+});
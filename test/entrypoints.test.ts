@@ -0,0 +1,268 @@
+import { describe, expect, test } from 'bun:test';
+import { STUB_PAYER, get, invoke } from './agent';
+import { today } from '../src/schedule';
+import { takeSnapshot } from '../src/snapshots';
+import { usageReport } from '../src/usage';
+import { deleteWebhook } from '../src/webhooks';
+
+// Each call goes through the full server: usage metering, the ask router and the stand-in payments
+async function output(key: string, input: unknown) {
+  const res = await invoke(key, input);
+  expect(res.status).toBe(200);
+  return (await res.json() as { output: any }).output;
+}
+
+describe('payments', () => {
+  test('a paid entrypoint asks for payment first', async () => {
+    expect((await invoke('standings', {}, { paid: false })).status).toBe(402);
+  });
+
+  test('a free entrypoint answers without one', async () => {
+    expect((await invoke('overview', {}, { paid: false })).status).toBe(200);
+  });
+});
+
+describe('entrypoints', () => {
+  test('standings lists every team, best first', async () => {
+    const { standings } = await output('standings', {});
+    expect(standings).toHaveLength(32);
+    expect(standings[0].points).toBeGreaterThanOrEqual(standings[31].points);
+  });
+
+  test('leaders rank the league, or one team', async () => {
+    const league = await output('leaders', { category: 'goals', limit: 3 });
+    expect(league).toMatchObject({ category: 'goals', team: null, count: 3 });
+
+    const team = await output('leaders', { team: 'Leafs', limit: 2 });
+    expect(team).toMatchObject({ category: 'points', team: 'TOR', count: 2 });
+    expect(team.leaders.every((l: { team: string }) => l.team === 'TOR')).toBe(true);
+    expect(team.leaders[0].value).toBeGreaterThanOrEqual(team.leaders[1].value);
+  });
+
+  test('team resolves a nickname', async () => {
+    const { team } = await output('team', { team: 'Leafs' });
+    expect(team).toMatchObject({ abbrev: 'TOR', name: 'Toronto Maple Leafs' });
+  });
+
+  test('game details for a finished game', async () => {
+    const { game } = await output('game', { gameId: 2025020661 });
+    expect(game).toMatchObject({ id: 2025020661, state: 'FINAL', home: { abbrev: 'DET' }, away: { abbrev: 'TBL' } });
+  });
+
+  test('player by ID, and a name that matches several', async () => {
+    const { player, currentSeason } = await output('player', { playerId: 8900070 });
+    expect(player).toMatchObject({ name: 'Jonas Nyquist', team: 'TOR' });
+    expect(currentSeason.points).toBe(currentSeason.goals + currentSeason.assists);
+
+    const ambiguous = await output('player', { name: 'Baxter' });
+    expect(ambiguous.ambiguous).toBe(true);
+    expect(ambiguous.candidates.map((c: { id: number }) => c.id)).toContain(8900071);
+  });
+
+  test('player search takes a team hint', async () => {
+    const { candidates } = await output('player-search', { query: 'Nyquist TOR' });
+    expect(candidates[0]).toMatchObject({ id: 8900070, team: 'TOR' });
+  });
+
+  test('live scores list today\'s slate with a stream to follow', async () => {
+    const live = await output('live-scores', {});
+    expect(live.streamUrl).toBe(`/live/${live.subscriptionId}`);
+    expect(live.games.map((g: { gameId: number; state: string }) => [g.gameId, g.state])).toEqual(expect.arrayContaining([
+      [2025020661, 'FINAL'], [2025020662, 'LIVE'], [2025020663, 'FUT'],
+    ]));
+  });
+
+  test('compare players marks the leader of each stat', async () => {
+    const { players, skaters } = await output('compare-players', { playerIds: [8900070, 8900071] });
+    expect(players.map((p: { id: number }) => p.id)).toEqual([8900070, 8900071]);
+    expect(skaters.currentSeason.find((s: { stat: string }) => s.stat === 'points')).toMatchObject({
+      values: { 8900070: 32, 8900071: 54 }, leaders: [8900071],
+    });
+  });
+
+  test('schedule for a team, and the league\'s day', async () => {
+    const team = await output('schedule', { team: 'Leafs' });
+    expect(team).toMatchObject({ scope: 'team', team: 'TOR' });
+    expect(team.past.every((g: { result: string | null }) => g.result !== null)).toBe(true);
+
+    const league = await output('schedule', {});
+    expect(league).toMatchObject({ scope: 'league', from: '2026-01-15', to: '2026-01-15' });
+    expect(league.days[0].games.map((g: { gameId: number }) => g.gameId)).toContain(2025020661);
+  });
+
+  test('playoff picture seeds three per division and two wildcards per conference', async () => {
+    const { conferences } = await output('playoff-picture', {});
+    expect(conferences).toHaveLength(2);
+    for (const c of conferences) {
+      expect(c.divisions.map((d: { leaders: unknown[] }) => d.leaders.length)).toEqual([3, 3]);
+      expect(c.wildcards.map((t: { seed: string }) => t.seed)).toEqual(['WC1', 'WC2']);
+    }
+  });
+
+  test('goalies for a team, with their share of starts', async () => {
+    const { scope, goalies } = await output('goalies', { team: 'TOR' });
+    expect(scope).toBe('team');
+    expect(goalies.length).toBeGreaterThan(0);
+    expect(goalies.every((g: { team: string; startShare: number }) => g.team === 'TOR' && g.startShare <= 1)).toBe(true);
+  });
+
+  test('game logs for a player and a team, with rolling windows', async () => {
+    const player = await output('player-game-log', { playerId: 8900070 });
+    expect(player).toMatchObject({ type: 'skater', player: { id: 8900070 } });
+    expect(player.games.length).toBeGreaterThan(0);
+
+    const team = await output('team-game-log', { team: 'TOR' });
+    expect(team.team).toBe('TOR');
+    expect(team.rolling.map((w: { window: number }) => w.window)).toEqual([5, 10, 20]);
+    expect(Object.keys(team.cache)).toEqual(['/club-schedule-season/TOR/now']);
+  });
+
+  test('fantasy ranks a team\'s players by score', async () => {
+    const { rankings } = await output('fantasy', { team: 'TOR', limit: 3 });
+    expect(rankings.map((r: { rank: number }) => r.rank)).toEqual([1, 2, 3]);
+    expect(rankings.every((r: { team: string }) => r.team === 'TOR')).toBe(true);
+    expect(rankings[0].score).toBeGreaterThanOrEqual(rankings[2].score);
+  });
+
+  test('teams lists every franchise, or finds one by alias', async () => {
+    expect((await output('teams', {})).count).toBe(32);
+    const { teams } = await output('teams', { team: 'Leafs' });
+    expect(teams).toEqual([expect.objectContaining({ abbrev: 'TOR', aliases: ['leafs'] })]);
+  });
+
+  test('webhooks register a signed subscription', async () => {
+    const hook = await output('webhooks', { url: 'http://127.0.0.1:9/hook', team: 'Leafs', events: ['final'] });
+    deleteWebhook(hook.subscriptionId);
+    expect(hook).toMatchObject({ scope: { type: 'team', team: 'TOR' }, events: ['final'], signature: { algorithm: 'HMAC-SHA256' } });
+    expect(hook.secret.length).toBeGreaterThanOrEqual(16);
+  });
+
+  test('history reads the stored snapshots', async () => {
+    await takeSnapshot();
+    const history = await output('history', { team: 'TOR', metric: 'points' });
+    expect(history).toMatchObject({ subject: { type: 'team', id: 'TOR' }, metric: 'points', to: '2026-01-15' });
+    expect(history.series.at(-1)).toMatchObject({ date: '2026-01-15', value: 49 });
+  });
+
+  test('projections replay exactly for the same seed', async () => {
+    const input = { iterations: 200, seed: 42 };
+    const { cache: _first, ...first } = await output('projections', input);
+    const { cache: _second, ...second } = await output('projections', input);
+    expect(first.seed).toBe(42);
+    expect(first.teams.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  test('errors come back as structured outputs', async () => {
+    expect((await output('team', { team: 'Zamboni' })).error.code).toBe('not_found');
+    expect((await output('matchup', { teams: ['TOR', 'Leafs'] })).error.code).toBe('invalid_input');
+  });
+
+  test('a missing dated payload is reported as such, not as a missing team', async () => {
+    const { error } = await output('team', { team: 'TOR', date: '2099-01-01' });
+    expect(error.code).toBe('not_found');
+    expect(error.message).toContain('2099-01-01');
+    expect(error.message).not.toContain('Team "TOR"');
+  });
+
+  test('a league-wide miss keeps the upstream message', async () => {
+    const { error } = await output('schedule', { date: '2099-01-01' });
+    expect(error.code).toBe('not_found');
+    expect(error.message).not.toContain('Team');
+  });
+
+  test('text format renders a plain answer', async () => {
+    const text = await output('ask-team', { question: 'How are the Leafs doing?', format: 'text' });
+    expect(text).toMatchObject({ format: 'text', contentType: 'text/plain' });
+    expect(text.content).toContain('Toronto Maple Leafs');
+  });
+});
+
+describe('dates', () => {
+  test('a well-formed but impossible date is invalid input', async () => {
+    for (const [key, input] of [
+      ['history', { team: 'TOR', metric: 'points', to: '2024-13-45' }],
+      ['schedule', { date: '2025-02-30' }],
+    ] as const) {
+      const res = await invoke(key, input);
+      expect(res.status).toBe(400);
+      const { issues } = await res.json() as { issues: { message: string }[] };
+      expect(issues.map((i) => i.message)).toEqual(['Not a calendar date']);
+    }
+  });
+});
+
+describe('report', () => {
+  test('the digest is titled with the day of the data, not the wall clock', async () => {
+    const digest = await output('report', { format: 'markdown' });
+    expect(digest.content).toStartWith('## NHL daily digest: 2026-01-15');
+  });
+});
+
+describe('ask', () => {
+  test('routes a question and bills the route it ran', async () => {
+    const answer = await output('ask', { question: 'Who has the most points on the Leafs?' });
+    expect(answer.routedTo).toMatchObject({ entrypoint: 'leaders', input: { category: 'points', team: 'TOR' }, price: 0.002 });
+    expect(answer.answer).toContain('leads the Toronto Maple Leafs in points');
+  });
+
+  test('the routed entrypoint quotes the price', async () => {
+    const res = await invoke('ask', { question: 'Who has the most points on the Leafs?' }, { paid: false });
+    expect(res.status).toBe(402);
+  });
+
+  test('a question no route can answer is refused before payment', async () => {
+    const res = await invoke('ask', { question: 'what is the weather' }, { paid: false });
+    expect(res.status).toBe(400);
+    expect((await res.json() as { error: { code: string } }).error.code).toBe('invalid_input');
+  });
+
+  test('a route refuses questions for another route', async () => {
+    expect((await invoke('ask-player', { question: 'Who has the most points on the Leafs?' })).status).toBe(400);
+  });
+
+  test('the player route checks the name against the rosters before answering', async () => {
+    expect((await invoke('ask-player', { question: 'what is the weather' })).status).toBe(400);
+  });
+
+  test('a routed question is metered once, as the route that answered it', async () => {
+    const calls = (key: string) => usageReport(today(), today())!.byEntrypoint.find((e) => e.entrypoint === key)?.calls ?? 0;
+    const before = { ask: calls('ask'), route: calls('ask-leaders') };
+    await invoke('ask', { question: 'Who has the most points on the Leafs?' });
+    expect(calls('ask')).toBe(before.ask);
+    expect(calls('ask-leaders')).toBe(before.route + 1);
+
+    // A question the router turns away is its own call
+    await invoke('ask', { question: 'what is the weather' }, { paid: false });
+    expect(calls('ask')).toBe(before.ask + 1);
+  });
+});
+
+describe('identity-status', () => {
+  test('reads the registry at most once per interval, refresh or not', async () => {
+    const first = await output('identity-status', {});
+    expect(first.status).toBe('unverified');
+    expect(first.checks.find((c: { name: string }) => c.name === 'payments').status).toBe('skipped');
+    const again = await output('identity-status', { refresh: true });
+    expect(again.checkedAt).toBe(first.checkedAt);
+  });
+});
+
+describe('usage', () => {
+  test('the admin report is hidden without a token', async () => {
+    expect((await get('/admin/usage')).status).toBe(404);
+  });
+
+  test('only a settled payment makes a call paid', async () => {
+    const paidCalls = (key: string) =>
+      usageReport(today(), today())!.byEntrypoint.find((e) => e.entrypoint === key)?.paidCalls ?? 0;
+    const before = { overview: paidCalls('overview'), standings: paidCalls('standings') };
+
+    // A free entrypoint never settles, whatever X-PAYMENT header the caller sends
+    await invoke('overview', {}, { paid: true });
+    await invoke('standings', {});
+    expect(paidCalls('overview')).toBe(before.overview);
+    expect(paidCalls('standings')).toBe(before.standings + 1);
+    expect(usageReport(today(), today())!.topCallers.map((c) => c.caller)).toContain(STUB_PAYER);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * The second pass, against fixtures/nhl-offseason: final standings, no
+ * games, empty leaderboards and game logs. Run by `bun run test:offseason`
+ * (part of `bun test` via the test script), since the fixture set is chosen
+ * when the agent is imported.
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { invoke, mounted } from './agent';
+import { deleteWebhook } from '../src/webhooks';
+
+// A valid call for every entrypoint; each answer is checked against the entrypoint's output schema
+const INPUTS: Record<string, unknown> = {
+  overview: {},
+  standings: {},
+  player: { playerId: 8900070 },
+  leaders: {},
+  team: { team: 'TOR' },
+  report: {},
+  'player-search': { query: 'Nyquist TOR' },
+  game: { gameId: 2025020661 },
+  'live-scores': {},
+  'compare-players': { playerIds: [8900070, 8900071] },
+  schedule: {},
+  'playoff-picture': {},
+  projections: { iterations: 100, seed: 1 },
+  matchup: { teams: ['TOR', 'BOS'] },
+  goalies: {},
+  'player-game-log': { playerId: 8900070 },
+  'team-game-log': { team: 'TOR' },
+  fantasy: { limit: 3 },
+  teams: {},
+  'ask-standings': { question: 'Who leads the West?' },
+  'ask-leaders': { question: 'Who has the most goals?' },
+  'ask-team': { question: 'How are the Leafs doing?' },
+  'ask-player': { question: 'How is Jonas Nyquist doing?' },
+  webhooks: { url: 'http://127.0.0.1:9/hook', team: 'TOR' },
+  history: { team: 'TOR', metric: 'points' },
+  'identity-status': {},
+};
+
+async function output(key: string, input: unknown) {
+  const res = await invoke(key, input);
+  expect(res.status).toBe(200);
+  return (await res.json() as { output: any }).output;
+}
+
+describe('offseason', () => {
+  test('every entrypoint has a call here', () => {
+    expect(Object.keys(INPUTS).sort()).toEqual([...mounted.keys()].sort());
+  });
+
+  test.each(Object.entries(INPUTS))('%s answers to its output schema', async (key, input) => {
+    const result = await output(key, input);
+    if (key === 'webhooks') deleteWebhook(result.subscriptionId);
+  });
+
+  test('the season is over: no games left to play or project', async () => {
+    expect((await output('schedule', {})).gamesCount).toBe(0);
+    expect((await output('live-scores', {})).games).toEqual([]);
+    const { remainingGames, teams } = await output('projections', { iterations: 100, seed: 1 });
+    expect(remainingGames).toBe(0);
+    expect(teams.every((t: { projectedPoints: { mean: number }; currentPoints: number }) => t.projectedPoints.mean === t.currentPoints)).toBe(true);
+  });
+
+  test('final standings stand, and empty leaderboards are empty rather than errors', async () => {
+    const { standings } = await output('standings', {});
+    expect(standings.every((t: { gamesPlayed: number }) => t.gamesPlayed === 82)).toBe(true);
+    expect(await output('leaders', {})).toMatchObject({ leaders: [], count: 0 });
+    expect((await output('ask-player', { question: 'How is Jonas Nyquist doing?' })).answer).toContain('has not played this season');
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  decodeFunctionData,
+  encodeEventTopics,
+  zeroAddress,
+  type Address,
+  type Hex,
+} from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { mainnet } from 'viem/chains';
+import { REGISTRY_ABI, ownedAgents, runRegistrations, type Registry } from '../src/registration';
+
+const REGISTRY: Address = '0x8004A169FB4a3325136EB29fA0ceB6D2e539a432';
+const STRANGER: Address = '0x00000000000000000000000000000000000000bb';
+const account = privateKeyToAccount(generatePrivateKey());
+
+interface ChainState {
+  deployedAt: bigint;
+  latest: bigint;
+  /** Tokens ever transferred to the wallet, by the block they arrived in */
+  received: { tokenId: bigint; block: bigint }[];
+  owners: Map<bigint, Address>;
+  uris: Map<bigint, string>;
+  /** Calls that throw before answering, by method name */
+  failures?: Record<string, number>;
+}
+
+// A registry on a chain that only exists in memory: reads answer from `state`, sends mint or set a URI
+function mockRegistry(state: ChainState, fromBlock: bigint | null = null) {
+  const calls = { getCode: [] as bigint[], getLogs: [] as [bigint, bigint][], sent: [] as Hex[] };
+  const failing = (method: string) => {
+    if (!state.failures?.[method]) return;
+    state.failures[method]--;
+    throw new Error(`${method} failed`);
+  };
+  let nextTokenId = 100n;
+  const receipts = new Map<Hex, object>();
+
+  const publicClient = {
+    async getBlockNumber() {
+      failing('getBlockNumber');
+      return state.latest;
+    },
+    async getCode({ blockNumber }: { blockNumber: bigint }) {
+      calls.getCode.push(blockNumber);
+      return blockNumber >= state.deployedAt ? '0x6080' : undefined;
+    },
+    async getLogs({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) {
+      calls.getLogs.push([fromBlock, toBlock]);
+      return state.received
+        .filter((r) => r.block >= fromBlock && r.block <= toBlock)
+        .map((r) => ({ args: { from: zeroAddress, to: account.address, tokenId: r.tokenId }, blockNumber: r.block }));
+    },
+    async readContract({ functionName, args }: { functionName: string; args: [bigint | Address] }) {
+      const [arg] = args;
+      if (functionName === 'balanceOf') return BigInt([...state.owners.values()].filter((o) => o === arg).length);
+      if (functionName === 'ownerOf') return state.owners.get(arg as bigint)!;
+      return state.uris.get(arg as bigint)!;
+    },
+    estimateGas: async () => 100_000n,
+    getGasPrice: async () => 1_000_000_000n,
+    getBalance: async () => 10n ** 18n,
+    waitForTransactionReceipt: async ({ hash }: { hash: Hex }) => receipts.get(hash)!,
+  };
+
+  const walletClient = {
+    async sendTransaction({ data }: { data: Hex }) {
+      calls.sent.push(data);
+      const hash = `0x${calls.sent.length.toString(16).padStart(64, '0')}` as Hex;
+      const call = decodeFunctionData({ abi: REGISTRY_ABI, data });
+      const logs = [];
+      if (call.functionName === 'register') {
+        const tokenId = nextTokenId++;
+        state.owners.set(tokenId, account.address);
+        state.uris.set(tokenId, call.args[0]);
+        logs.push({
+          address: REGISTRY,
+          topics: encodeEventTopics({ abi: REGISTRY_ABI, eventName: 'Transfer', args: { from: zeroAddress, to: account.address, tokenId } }),
+          data: '0x',
+          blockNumber: state.latest,
+          logIndex: 0,
+          transactionHash: hash,
+        });
+      } else if (call.functionName === 'setAgentURI') {
+        state.uris.set(call.args[0], call.args[1]);
+      }
+      receipts.set(hash, { status: 'success', logs, blockNumber: state.latest, gasUsed: 90_000n });
+      return hash;
+    },
+  };
+
+  const registry = {
+    publicClient,
+    walletClient,
+    account,
+    address: REGISTRY,
+    chain: mainnet,
+    fromBlock,
+  } as unknown as Registry;
+  return { registry, calls };
+}
+
+// Agents 7 and 9 are the wallet's; 8 was transferred away after it arrived
+function chain(overrides: Partial<ChainState> = {}): ChainState {
+  return {
+    deployedAt: 1_234n,
+    latest: 25_000n,
+    received: [{ tokenId: 7n, block: 2_000n }, { tokenId: 8n, block: 15_000n }, { tokenId: 9n, block: 24_999n }],
+    owners: new Map([[7n, account.address], [8n, STRANGER], [9n, account.address]]),
+    uris: new Map([[7n, 'https://a.example/meta.json'], [8n, 'https://b.example/meta.json'], [9n, 'https://c.example/meta.json']]),
+    ...overrides,
+  };
+}
+
+const run = { dryRun: false, yes: true };
+
+describe('registration plan', () => {
+  test('skips a registered URI, registers a new one and updates an owned agent', async () => {
+    const { registry, calls } = mockRegistry(chain());
+    const results = await runRegistrations(registry, [
+      { name: 'same', agentURI: 'https://a.example/meta.json' },
+      { name: 'new', agentURI: 'https://d.example/meta.json' },
+      { name: 'moved', agentURI: 'https://e.example/meta.json', agentId: 9n },
+      // Registered by the previous target in this run
+      { name: 'again', agentURI: 'https://d.example/meta.json' },
+    ], run);
+
+    expect(results.map((r) => [r.name, r.action, r.status, r.agentId])).toEqual([
+      ['same', 'skip', 'skipped', '7'],
+      ['new', 'register', 'confirmed', '100'],
+      ['moved', 'update', 'confirmed', '9'],
+      ['again', 'skip', 'skipped', '100'],
+    ]);
+    expect(results[2].previousURI).toBe('https://c.example/meta.json');
+    expect(calls.sent.map((data) => decodeFunctionData({ abi: REGISTRY_ABI, data }))).toEqual([
+      { functionName: 'register', args: ['https://d.example/meta.json'] },
+      { functionName: 'setAgentURI', args: [9n, 'https://e.example/meta.json'] },
+    ]);
+  });
+
+  test('a dry run estimates without sending', async () => {
+    const { registry, calls } = mockRegistry(chain());
+    const [result] = await runRegistrations(registry, [{ name: 'new', agentURI: 'https://d.example/meta.json' }], { ...run, dryRun: true });
+    expect(result).toMatchObject({ status: 'dry-run', estimatedGas: '100000', estimatedCostEth: '0.0001' });
+    expect(calls.sent).toEqual([]);
+  });
+});
+
+describe('owned agents', () => {
+  test('finds the deployment block by binary search and scans from it in pages', async () => {
+    const { registry, calls } = mockRegistry(chain());
+    const owned = await ownedAgents(registry);
+
+    expect(owned.map((a) => a.agentId)).toEqual([7n, 9n]);
+    // One probe of the latest block, then about log2(25000) halvings
+    expect(calls.getCode.length).toBeLessThanOrEqual(17);
+    expect(calls.getLogs).toEqual([[1_234n, 11_233n], [11_234n, 21_233n], [21_234n, 25_000n]]);
+  });
+
+  test('REGISTRY_FROM_BLOCK skips the search', async () => {
+    const { registry, calls } = mockRegistry(chain(), 20_000n);
+    expect((await ownedAgents(registry)).map((a) => a.agentId)).toEqual([9n]);
+    expect(calls.getCode).toEqual([]);
+    expect(calls.getLogs).toEqual([[20_000n, 25_000n]]);
+  });
+
+  test('a wallet with no tokens does not scan', async () => {
+    const { registry, calls } = mockRegistry(chain({ owners: new Map([[8n, STRANGER]]) }));
+    expect(await ownedAgents(registry)).toEqual([]);
+    expect(calls.getLogs).toEqual([]);
+  });
+
+  test('an address without the registry is an error', async () => {
+    const { registry } = mockRegistry(chain({ deployedAt: 30_000n }));
+    await expect(ownedAgents(registry)).rejects.toThrow('No registry contract');
+  });
+});
+
+describe('failures', () => {
+  test('each target records its own failure and the rest still run', async () => {
+    // The first read of the wallet's tokens fails; the next target reads them again
+    const { registry } = mockRegistry(chain({ failures: { getBlockNumber: 1 } }));
+    const results = await runRegistrations(registry, [
+      { name: 'first', agentURI: 'https://a.example/meta.json' },
+      { name: 'stranger', agentURI: 'https://f.example/meta.json', agentId: 8n },
+      { name: 'same', agentURI: 'https://a.example/meta.json' },
+    ], run);
+
+    expect(results.map((r) => [r.name, r.status, r.error])).toEqual([
+      ['first', 'failed', 'getBlockNumber failed'],
+      ['stranger', 'failed', 'Wallet does not own agent 8'],
+      ['same', 'skipped', undefined],
+    ]);
+  });
+});
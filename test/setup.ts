@@ -0,0 +1,19 @@
+/**
+ * Test environment, set before any module reads it: NHL data is replayed
+ * from fixtures/nhl, the stores are in memory so the suite leaves nothing
+ * behind, and webhooks may be delivered to a local receiver without waiting
+ * long between retries. Nothing starts in the background when the agent is
+ * imported: no standings backfill, no identity check (reads on demand go to
+ * a closed local port instead of a public RPC), and an empty webhook store
+ * leaves no subscriptions to restore and poll for.
+ */
+
+process.env.NHL_FIXTURES = 'replay';
+process.env.SNAPSHOT_DB = ':memory:';
+process.env.USAGE_DB = ':memory:';
+process.env.WEBHOOK_DB = ':memory:';
+process.env.WEBHOOK_ALLOW_LOCALHOST = 'true';
+process.env.WEBHOOK_RETRY_BASE_MS = '1';
+process.env.SNAPSHOT_CHECK_INTERVAL_MS = '0';
+process.env.IDENTITY_CHECK_INTERVAL_MS = '0';
+process.env.IDENTITY_RPC_URL = 'http://127.0.0.1:9';
@@ -0,0 +1,186 @@
+import { afterAll, afterEach, describe, expect, test } from 'bun:test';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  checkWebhookUrl,
+  createWebhook,
+  deleteWebhook,
+  deliver,
+  diffPlayoffPositions,
+  diffScores,
+  isPublicAddress,
+  sign,
+  webhookPoller,
+  type PlayoffPosition,
+  type WebhookEvent,
+} from '../src/webhooks';
+import type { ScoreGame } from '../src/schemas';
+
+const SECRET = 'test-secret-0123456789';
+
+// A local receiver: records each POST, answers 503 while `failures` lasts, and redirects /moved
+const received: { headers: Headers; body: string }[] = [];
+let failures = 0;
+const receiver = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    if (new URL(req.url).pathname === '/moved') return Response.redirect('http://127.0.0.1:9/internal', 302);
+    received.push({ headers: req.headers, body: await req.text() });
+    if (failures > 0) {
+      failures--;
+      return new Response('busy', { status: 503 });
+    }
+    return new Response('ok');
+  },
+});
+
+const goal: WebhookEvent = {
+  type: 'goal',
+  gameId: 2025020662,
+  teams: ['SJS', 'NYI'],
+  playerIds: [8900070],
+  data: { team: 'SJS' },
+  at: '2026-01-15T01:02:03.000Z',
+};
+
+const subscribe = (path = '/hook') => createWebhook({
+  url: `http://127.0.0.1:${receiver.port}${path}`,
+  scope: { type: 'team', team: 'SJS', playerId: null, gameId: null },
+  events: ['goal'],
+  secret: SECRET,
+});
+
+const created: string[] = [];
+
+afterEach(() => {
+  for (const id of created.splice(0)) deleteWebhook(id);
+  received.length = 0;
+  failures = 0;
+});
+
+afterAll(() => receiver.stop(true));
+
+describe('webhook delivery', () => {
+  test('POSTs the event signed over its timestamp and body', async () => {
+    const sub = await subscribe();
+    created.push(sub.id);
+    const record = await deliver(sub, goal);
+
+    expect(record).toMatchObject({ status: 'delivered', attempts: 1, responseStatus: 200, error: null });
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const timestamp = headers.get(TIMESTAMP_HEADER)!;
+    expect(headers.get(SIGNATURE_HEADER)).toBe(`sha256=${await sign(SECRET, timestamp, body)}`);
+    expect(JSON.parse(body)).toEqual({ id: record.id, subscriptionId: sub.id, type: 'goal', at: goal.at, data: goal.data });
+  });
+
+  test('retries a failing receiver until it accepts', async () => {
+    const sub = await subscribe();
+    created.push(sub.id);
+    failures = 2;
+    const record = await deliver(sub, goal);
+
+    expect(record).toMatchObject({ status: 'delivered', attempts: 3 });
+    expect(received).toHaveLength(3);
+  });
+
+  test('connects to the address it checked, under the receiver\'s own host name', async () => {
+    const sub = await createWebhook({
+      url: `http://localhost:${receiver.port}/hook`,
+      scope: { type: 'team', team: 'SJS', playerId: null, gameId: null },
+      events: ['goal'],
+      secret: SECRET,
+    });
+    created.push(sub.id);
+    expect(await deliver(sub, goal)).toMatchObject({ status: 'delivered' });
+    expect(received[0].headers.get('host')).toBe(`localhost:${receiver.port}`);
+  });
+
+  test('does not follow redirects', async () => {
+    const sub = await subscribe('/moved');
+    created.push(sub.id);
+    const record = await deliver(sub, goal);
+
+    expect(record).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 302 });
+  });
+
+  test('the poller stops once the last subscription is gone', async () => {
+    const sub = await subscribe();
+    expect(webhookPoller.running).toBe(true);
+    deleteWebhook(sub.id);
+    expect(webhookPoller.running).toBe(false);
+  });
+});
+
+describe('webhook receivers', () => {
+  test('only public addresses may receive webhooks', () => {
+    for (const address of ['10.1.2.3', '172.20.0.1', '192.168.1.1', '127.0.0.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fe80::1', 'fd12:3456::1', '::ffff:10.0.0.1', '::ffff:7f00:1', '64:ff9b::a9fe:a9fe']) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+    for (const address of ['8.8.8.8', '151.101.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  test('a private or link-local receiver is refused at registration', async () => {
+    await expect(checkWebhookUrl('https://169.254.169.254/latest/meta-data')).rejects.toThrow('not a public address');
+    await expect(checkWebhookUrl('https://10.0.0.5/hook')).rejects.toThrow('not a public address');
+    // Loopback is allowed here only because the tests set WEBHOOK_ALLOW_LOCALHOST
+    await expect(checkWebhookUrl(`http://127.0.0.1:${receiver.port}/hook`)).resolves.toBeUndefined();
+  });
+});
+
+// === Diffs ===
+
+const scorer = (playerId: number, name: string, goalsToDate: number) =>
+  ({ playerId, name: { default: name }, teamAbbrev: 'SJS', goalsToDate, assists: [] });
+
+function game(state: string, home: number, away: number, goals?: ReturnType<typeof scorer>[]): ScoreGame {
+  return { id: 1, gameState: state, homeTeam: { abbrev: 'SJS', score: home }, awayTeam: { abbrev: 'NYI', score: away }, goals };
+}
+
+// Each event as [type, its milestone or team]
+const summary = (events: WebhookEvent[]) => events.map((e) => [e.type, e.data.milestone ?? e.data.team ?? null]);
+
+describe('score diffs', () => {
+  const hat = [scorer(10, 'A', 8), scorer(10, 'A', 9)];
+  const cases: [string, ScoreGame, ScoreGame, [string, string | null][]][] = [
+    ['nothing changed', game('LIVE', 1, 0, [scorer(10, 'A', 5)]), game('LIVE', 1, 0, [scorer(10, 'A', 5)]), []],
+    ['a goal', game('LIVE', 0, 0, []), game('LIVE', 1, 0, [scorer(10, 'A', 5)]), [['goal', 'SJS']]],
+    ['a goal without scoring plays', game('LIVE', 0, 0), game('LIVE', 0, 1), [['goal', 'NYI']]],
+    ['a season milestone', game('LIVE', 0, 0, []), game('LIVE', 1, 0, [scorer(10, 'A', 20)]), [['goal', 'SJS'], ['milestone', 'season-goals']]],
+    ['a hat trick', game('LIVE', 2, 0, hat), game('LIVE', 3, 0, [...hat, scorer(10, 'A', 10)]), [['goal', 'SJS'], ['milestone', 'hat-trick']]],
+    ['the final horn', game('LIVE', 2, 1, []), game('FINAL', 2, 1, []), [['final', null]]],
+  ];
+  test.each(cases)('%s', (_, before, after, expected) => {
+    expect(summary(diffScores(new Map([[1, before]]), [after]))).toEqual(expected);
+  });
+
+  test('a game first seen is not diffed', () => {
+    expect(diffScores(new Map(), [game('FINAL', 3, 2, [scorer(10, 'A', 20)])])).toEqual([]);
+  });
+});
+
+describe('playoff-position diffs', () => {
+  const position = (seed: string | null, flags: Partial<PlayoffPosition> = {}): PlayoffPosition =>
+    ({ teamName: 'San Jose Sharks', seed, clinched: false, eliminated: false, ...flags });
+
+  const cases: [string, PlayoffPosition, PlayoffPosition, string | null][] = [
+    ['no change', position('WC1'), position('WC1'), null],
+    ['moved into the playoffs', position(null), position('WC2'), 'moved-in'],
+    ['dropped out of the playoffs', position('WC2'), position(null), 'moved-out'],
+    ['reseeded', position('WC2'), position('P3'), 'reseeded'],
+    ['clinched', position('P1'), position('P1', { clinched: true }), 'clinched'],
+    ['eliminated', position(null), position(null, { eliminated: true }), 'eliminated'],
+  ];
+  test.each(cases)('%s', (_, before, after, change) => {
+    const events = diffPlayoffPositions(new Map([['SJS', before]]), new Map([['SJS', after]]));
+    expect(events.map((e) => e.data.change)).toEqual(change ? [change] : []);
+    if (change) expect(events[0]).toMatchObject({ type: 'playoff-position', teams: ['SJS'], data: { from: before.seed, to: after.seed } });
+  });
+
+  test('a team first seen is not diffed', () => {
+    expect(diffPlayoffPositions(new Map(), new Map([['SJS', position('P1', { clinched: true })]]))).toEqual([]);
+  });
+});